@@ -3,10 +3,13 @@ set -e
 
 # Bundle JS, then strip comments via esbuild
 vite build -c vite.config.lib.ts
-npx esbuild dist-lib/index.js --outfile=dist-lib/index.js --allow-overwrite --minify-syntax --minify-whitespace
+for f in dist-lib/*.js; do
+  npx esbuild "$f" --outfile="$f" --allow-overwrite --minify-syntax --minify-whitespace
+done
 
-# Bundle .d.ts
+# Bundle .d.ts (one per entry point)
 dts-bundle-generator --project tsconfig.app.json -o dist-lib/index.d.ts src/lib.ts
+dts-bundle-generator --project tsconfig.app.json -o dist-lib/server.d.ts src/server.ts
 
 # Append the React SVGAttributes module augmentation.
 # dts-bundle-generator doesn't handle module augmentations (global side effects,
@@ -0,0 +1,79 @@
+// Render demos' diagrams to SVG files, without a browser, e.g. for
+// README screenshots or for diffing rendered output in code review.
+//
+//   npm run render-svgs                       # every demo
+//   npm run render-svgs -- perm kanban        # just these
+//   npm run render-svgs -- perm --state s.json
+//
+// Options:
+//   --out <dir>      where to write the files (default: dist-svgs)
+//   --state <file>   render this JSON state instead of the initial one
+//                    (for a single demo)
+//   --fit            fit each SVG to its diagram, rather than to the
+//                    demo's width & height
+//
+// Demos are loaded through Vite (for TSX and import.meta.glob), with
+// a jsdom window standing in for the browser's.
+
+import { JSDOM } from "jsdom";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { createServer } from "vite";
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    out: { type: "string", default: "dist-svgs" },
+    state: { type: "string" },
+    fit: { type: "boolean", default: false },
+  },
+});
+
+const { window } = new JSDOM("<!doctype html><html><body></body></html>", {
+  url: "http://localhost/",
+  pretendToBeVisual: true,
+});
+globalThis.window = window;
+for (const key of Object.getOwnPropertyNames(window)) {
+  if (!(key in globalThis)) globalThis[key] = window[key];
+}
+if (!globalThis.navigator) globalThis.navigator = window.navigator;
+
+const server = await createServer({
+  server: { middlewareMode: true },
+  appType: "custom",
+  logLevel: "warn",
+  // We're not serving anything, so don't go looking for deps to bundle.
+  optimizeDeps: { noDiscovery: true, entries: [] },
+});
+
+let failed = false;
+try {
+  const { renderDemoSvgs } = await server.ssrLoadModule(
+    "/src/demo/renderDemoSvgs.tsx",
+  );
+  const { svgs, failures, skipped } = await renderDemoSvgs({
+    demoIds: positionals.length > 0 ? positionals : undefined,
+    state: values.state
+      ? JSON.parse(readFileSync(values.state, "utf8"))
+      : undefined,
+    fit: values.fit,
+  });
+
+  mkdirSync(values.out, { recursive: true });
+  for (const { fileName, svg } of svgs) {
+    writeFileSync(path.join(values.out, fileName), svg + "\n");
+  }
+  console.log(`Wrote ${svgs.length} SVGs to ${values.out}/`);
+  for (const { demoId, reason } of skipped) {
+    console.log(`Skipped ${demoId} (${reason})`);
+  }
+  for (const { demoId, error } of failures) {
+    console.error(`Couldn't render ${demoId}: ${error?.message ?? error}`);
+  }
+  failed = failures.length > 0;
+} finally {
+  await server.close();
+}
+process.exit(failed ? 1 : 0);
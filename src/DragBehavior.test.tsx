@@ -0,0 +1,328 @@
+import { describe, expect, it } from "vitest";
+import { manualClock } from "./clock";
+import { dragSpecToBehavior } from "./DragBehavior";
+import { Draggable, getOnDragCallbackOnElement } from "./draggable";
+import { Hysteresis, param } from "./DragSpec";
+import { getTraceInfo } from "./DragSpecTraceInfo";
+import {
+  DragPointers,
+  recordDragHeadless,
+  replayDragHeadless,
+  simulateDragHeadless,
+} from "./headless";
+import { Vec2 } from "./math/vec2";
+import { renderDraggableInertUnlayered } from "./renderDraggable";
+import { findElement, Svgx } from "./svgx";
+import { translate } from "./svgx/helpers";
+import { findByPath, getPath } from "./svgx/path";
+import { localToGlobal } from "./svgx/transform";
+import { assert } from "./utils/assert";
+
+type State = { pos: number };
+
+const SPACING = 100;
+
+/**
+ * Start a drag on the element `find` picks out (dragged by its path),
+ * and return its behavior.
+ */
+function startBehavior<T extends object>(
+  draggable: Draggable<T>,
+  state: T,
+  find: (el: Svgx) => boolean,
+  anchorPos: Vec2 = Vec2(0),
+) {
+  const content = renderDraggableInertUnlayered(draggable, state, null, false);
+  const found = findElement(content, find);
+  assert(!!found);
+  const draggedPath = getPath(found.element);
+  assert(!!draggedPath);
+  const behavior = dragSpecToBehavior(
+    getOnDragCallbackOnElement<T>(found.element)!(),
+    {
+      draggable,
+      draggedPath,
+      draggedId: found.element.props.id ?? null,
+      anchorPos,
+      startState: state,
+      debug: { varyVisualizer: false },
+      clock: manualClock(),
+    },
+  );
+  return { behavior, draggedPath };
+}
+
+// A dot with three resting places in a row.
+function dots(
+  kind: "closest" | "between",
+  hysteresis: Hysteresis,
+): Draggable<State> {
+  return ({ state, d }) => (
+    <circle
+      id="dot"
+      transform={translate(state.pos * SPACING, 0)}
+      r={10}
+      dragologyOnDrag={() => {
+        const states = [{ pos: 0 }, { pos: 1 }, { pos: 2 }];
+        return kind === "closest"
+          ? d.closest(states, { hysteresis })
+          : d.between(states, { hysteresis });
+      }}
+    />
+  );
+}
+
+function dropPositions(
+  draggable: Draggable<State>,
+  path: DragPointers,
+): number[] {
+  const initial: State = { pos: 0 };
+  const recording = recordDragHeadless(draggable, initial, "dot", path);
+  const { results } = replayDragHeadless(draggable, recording);
+  // (The last result is the drop, at the last position.)
+  return results.map((r) => r.dropState.pos);
+}
+
+describe.each(["closest", "between"] as const)("%s hysteresis", (kind) => {
+  const path: DragPointers = [
+    [0, 0],
+    [60, 0],
+    [110, 0],
+    [60, 0],
+    [20, 0],
+  ];
+
+  it("does nothing by default", () => {
+    expect(dropPositions(dots(kind, {}), path)).toEqual([0, 1, 1, 1, 0, 0]);
+  });
+
+  it("biases toward the start state", () => {
+    expect(dropPositions(dots(kind, { toStart: 30 }), path)).toEqual([
+      0, 0, 1, 0, 0, 0,
+    ]);
+  });
+
+  it("biases toward the current state", () => {
+    expect(dropPositions(dots(kind, { toCurrent: 30 }), path)).toEqual([
+      0, 0, 1, 1, 0, 0,
+    ]);
+  });
+
+  it("fades the start bias with distance", () => {
+    // By 60px, half of the bias is left: not enough to hold on.
+    expect(
+      dropPositions(dots(kind, { toStart: 30, fade: { distance: 120 } }), path),
+    ).toEqual([0, 1, 1, 1, 0, 0]);
+  });
+});
+
+describe("whenFar blend", () => {
+  // Pulled out of its spot, the dot fades over to following the
+  // pointer.
+  const dot: Draggable<State> = ({ state, d }) => (
+    <circle
+      id="dot"
+      transform={translate(state.pos, 0)}
+      r={10}
+      dragologyOnDrag={() =>
+        d.fixed({ pos: 0 }).whenFar(d.vary({ pos: 0 }, [param("pos")]), {
+          blend: { inner: 20, outer: 80 },
+        })
+      }
+    />
+  );
+
+  const initial: State = { pos: 0 };
+  const recording = recordDragHeadless(dot, initial, "dot", [
+    [0, 0],
+    [10, 0],
+    [35, 0],
+    [65, 0],
+    [100, 0],
+  ]);
+  const { results } = replayDragHeadless(dot, recording);
+  const previewX = (i: number) =>
+    localToGlobal(
+      results[i].preview.byId.get("dot")!.element.props.transform,
+      Vec2(0),
+    ).x;
+  const blend = (i: number) => {
+    const spec = results[i].tracedSpec;
+    assert(spec.type === "when-far");
+    return getTraceInfo(spec)?.blend;
+  };
+
+  it("shows only the foreground inside the band", () => {
+    expect(blend(1)).toBe(0);
+    expect(previewX(1)).toBe(0);
+    expect(results[1].activePath).toBe("when-far/fg/fixed");
+  });
+
+  it("interpolates the previews in the band", () => {
+    expect(blend(2)).toBeCloseTo(0.25);
+    expect(previewX(2)).toBeCloseTo(0.25 * 35, 0);
+    expect(blend(3)).toBeCloseTo(0.75);
+    expect(previewX(3)).toBeCloseTo(0.75 * 65, 0);
+  });
+
+  it("drops on whichever side dominates", () => {
+    expect(results[2].dropState).toEqual({ pos: 0 });
+    expect(results[3].activePath).toMatch(/^when-far\/bg\//);
+    expect(results[3].dropState.pos).toBeCloseTo(65, 0);
+  });
+
+  it("shows only the background past the band", () => {
+    expect(blend(4)).toBe(1);
+    expect(previewX(4)).toBeCloseTo(100, 0);
+  });
+});
+
+describe("withFloating", () => {
+  // The dot has no id; it's dragged by its path.
+  const dot: Draggable<State> = ({ state, d }) => (
+    <g>
+      <rect width={300} height={20} />
+      <circle
+        transform={translate(state.pos * SPACING, 0)}
+        r={10}
+        opacity={0.5}
+        dragologyOnDrag={() =>
+          d.closest([{ pos: 0 }, { pos: 1 }, { pos: 2 }]).withFloating()
+        }
+      />
+    </g>
+  );
+
+  it("floats an element without an id", () => {
+    const { behavior, draggedPath } = startBehavior(
+      dot,
+      { pos: 0 },
+      (el) => el.type === "circle",
+    );
+
+    const { preview, dropState } = behavior({
+      pointer: Vec2(120, 5),
+      velocity: Vec2(0),
+    });
+    expect(dropState).toEqual({ pos: 1 });
+    const floating = preview.byId.get(draggedPath)!.element;
+    expect(floating.type).toBe("circle");
+    expect(floating.props.opacity).toBe(0.5);
+    expect(localToGlobal(floating.props.transform, Vec2(0)).arr()).toEqual([
+      120, 5,
+    ]);
+    // ...and it's no longer where it was.
+    expect(findByPath(draggedPath, preview.byId.get("")!.element)).toBeNull();
+  });
+});
+
+describe("withMomentum", () => {
+  // A dot that snaps to three places, flung with momentum.
+  const flung: Draggable<State> = ({ state, d }) => (
+    <circle
+      id="dot"
+      transform={translate(state.pos * SPACING, 0)}
+      r={10}
+      dragologyOnDrag={() =>
+        d
+          .closest([{ pos: 0 }, { pos: 1 }, { pos: 2 }])
+          .withDropTransition("300ms")
+          .withMomentum()
+      }
+    />
+  );
+  const path: DragPointers = ["center", [5, 0], [10, 0], [15, 0], [20, 0]];
+
+  it("drops where a slow drag is released", () => {
+    // Frames too far apart to estimate a velocity from
+    const { dropState } = simulateDragHeadless(flung, { pos: 0 }, "dot", path, {
+      frameInterval: 500,
+    });
+    expect(dropState).toEqual({ pos: 0 });
+  });
+
+  it("projects a quick drag forward", () => {
+    // 5px every 16ms, projected 150ms on: 20 + 47 = 67, closest to 1
+    const { results, dropResult } = simulateDragHeadless(
+      flung,
+      { pos: 0 },
+      "dot",
+      path,
+    );
+    expect(results[results.length - 1].dropState).toEqual({ pos: 0 });
+    expect(dropResult.dropState).toEqual({ pos: 1 });
+    const traced = dropResult.tracedSpec;
+    assert(traced.type === "with-momentum");
+    expect(getTraceInfo(traced)?.projectedPointer?.x).toBe(20 + (5 / 16) * 150);
+  });
+
+  it("eases out from the release velocity", () => {
+    const { dropResult } = simulateDragHeadless(flung, { pos: 0 }, "dot", path);
+    const transition = dropResult.dropTransition;
+    assert(typeof transition === "object" && !!transition);
+    const { easing, duration } = transition;
+    assert(typeof easing === "function");
+    expect(duration).toBe(300);
+    // The preview is still at 0, heading for 100 at 5/16 px/ms
+    const slope = ((5 / 16) * 300) / 100;
+    expect(easing(0)).toBe(0);
+    expect(easing(1)).toBe(1);
+    const h = 1e-6;
+    expect(easing(h) / h).toBeCloseTo(slope, 4);
+  });
+});
+
+describe("vary with two contacts", () => {
+  type Bar = { x: number; y: number; s: number };
+
+  // A bar that can move and scale.
+  const bar: Draggable<Bar> = ({ state, d }) => (
+    <rect
+      id="bar"
+      transform={`translate(${state.x}, ${state.y}) scale(${state.s})`}
+      width={100}
+      height={20}
+      dragologyOnDrag={() =>
+        d.vary(state, [param("x"), param("y"), param("s")])
+      }
+    />
+  );
+
+  it("follows both contacts", () => {
+    const { behavior } = startBehavior(
+      bar,
+      { x: 0, y: 0, s: 1 },
+      (el) => el.props.id === "bar",
+      Vec2(0, 10),
+    );
+    // Pinch out: hold the left end, pull the right end (anchored at
+    // (100, 10)) twice as far.
+    let dropState: Bar | undefined;
+    for (let i = 0; i < 10; i++) {
+      ({ dropState } = behavior({
+        pointer: Vec2(0, 10),
+        gesture: { pointer2: Vec2(200, 10), anchorPos2: Vec2(100, 10) },
+      }));
+    }
+    expect(dropState!.s).toBeCloseTo(2, 1);
+    expect(dropState!.x).toBeCloseTo(0, 0);
+    expect(dropState!.y).toBeCloseTo(-10, 0);
+  });
+
+  it("follows one contact without a gesture", () => {
+    const { behavior } = startBehavior(
+      bar,
+      { x: 0, y: 0, s: 1 },
+      (el) => el.props.id === "bar",
+      Vec2(0, 10),
+    );
+    let dropState: Bar | undefined;
+    for (let i = 0; i < 10; i++) {
+      ({ dropState } = behavior({ pointer: Vec2(30, 10) }));
+    }
+    // (Scaling about the anchor is as good as moving, so only the
+    // anchor's position is pinned down.)
+    expect(dropState!.x).toBeCloseTo(30, 0);
+    expect(dropState!.y + 10 * dropState!.s).toBeCloseTo(10, 0);
+  });
+});
@@ -1,11 +1,12 @@
 import { PrettyPrint } from "@joshuahhh/pretty-print";
 import _ from "lodash";
+import { Clock } from "./clock";
 import {
   Draggable,
   getOnDragCallbackOnElement,
   makeDraggableProps,
 } from "./draggable";
-import { Chaining, DragSpecData } from "./DragSpec";
+import { Chaining, DragSpecData, Hysteresis, WhenFarBlend } from "./DragSpec";
 import { getTraceInfo, setTraceInfo } from "./DragSpecTraceInfo";
 import { ErrorWithJSX } from "./ErrorBoundary";
 import {
@@ -28,7 +29,7 @@ import { getLayeredBounds } from "./svgx/layeredBounds";
 import {
   drawLayered,
   findByPathInLayered,
-  layeredExtract,
+  layeredExtractPath,
   layeredMerge,
   layeredPrefixIds,
   layeredSetAttributes,
@@ -40,7 +41,12 @@ import {
 import { lerpLayeredWeighted } from "./svgx/lerp";
 import { findByPath } from "./svgx/path";
 import { localToGlobal } from "./svgx/transform";
-import { Transition } from "./transition";
+import {
+  easeWithInitialSlope,
+  resolveTransitionLike,
+  spring,
+  Transition,
+} from "./transition";
 import { assert, assertDefined, assertNever } from "./utils/assert";
 import {
   ManyReader,
@@ -65,6 +71,29 @@ export type DragBehavior<T extends object> = (
  */
 export type DragFrame = {
   pointer: Vec2;
+  /**
+   * Present while a second contact (e.g. a second finger) is down on
+   * the dragged element.
+   */
+  gesture?: DragGesture;
+  /** The pointer's recent velocity, in px per ms, if known. */
+  velocity?: Vec2;
+  /** True on the frame evaluated to get the final drop state. */
+  dropping?: boolean;
+};
+
+/**
+ * A two-contact gesture. Behaviors that can follow both contacts (like
+ * `d.vary`) pull the second anchor toward the second contact, so a
+ * pinch scales and a twist rotates.
+ */
+export type DragGesture = {
+  pointer2: Vec2;
+  /**
+   * Where the second contact landed, in the dragged element's local
+   * coordinates (like `DragInitContext.anchorPos`).
+   */
+  anchorPos2: Vec2;
 };
 
 /**
@@ -98,6 +127,8 @@ export type DragInitContext<T extends object> = {
   debug: {
     varyVisualizer: boolean;
   };
+  /** Behaviors that depend on time should read it from here. */
+  clock: Clock;
 };
 
 /**
@@ -135,6 +166,8 @@ export function dragSpecToBehavior<T extends object>(
       return withSnapRadiusBehavior(spec, ctx);
     case "with-drop-transition":
       return withDropTransitionBehavior(spec, ctx);
+    case "with-momentum":
+      return withMomentumBehavior(spec, ctx);
     case "with-branch-transition":
       return withBranchTransitionBehavior(spec, ctx);
     case "between":
@@ -186,11 +219,9 @@ function withFloatingBehavior<T extends object>(
   spec: DragSpecData<T> & { type: "with-floating" },
   ctx: DragInitContext<T>,
 ): DragBehavior<T> {
-  const { draggedId } = ctx;
-  assert(
-    draggedId !== null,
-    "Floating drags require the dragged element to have an id",
-  );
+  // The dragged element is found (and extracted) by path, so it
+  // needn't have an id.
+  const { draggedId, draggedPath } = ctx;
   const innerBehavior = dragSpecToBehavior(spec.inner, ctx);
 
   // Cache the float element (pre-translated to the origin) for frames
@@ -200,12 +231,12 @@ function withFloatingBehavior<T extends object>(
   return (frame) => {
     const innerResult = innerBehavior(frame);
     const layered = innerResult.preview;
-    const draggedLayer = layered.byId.get(draggedId);
+    const dragged = findByPathInLayered(draggedPath, layered);
 
     let elementPos: Vec2 | null = null;
     let floatAnchored: LayeredSvgx;
     let backdrop: LayeredSvgx;
-    if (!draggedLayer) {
+    if (!dragged) {
       if (cachedFloatAnchored === null) {
         // TODO: I feel like this shouldn't be necessary
 
@@ -219,13 +250,10 @@ function withFloatingBehavior<T extends object>(
           draggedId,
           false,
         );
-        const { extracted } = layeredExtract(startLayered, draggedId);
-        const startDraggedLayer = startLayered.byId.get(draggedId);
-        const floatPos = startDraggedLayer
-          ? localToGlobal(
-              startDraggedLayer.element.props.transform,
-              ctx.anchorPos,
-            )
+        const { extracted } = layeredExtractPath(startLayered, draggedPath);
+        const startDragged = findByPathInLayered(draggedPath, startLayered);
+        const floatPos = startDragged
+          ? localToGlobal(startDragged.accumulatedTransform, ctx.anchorPos)
           : Vec2(0);
         cachedFloatAnchored = layeredTransform(
           extracted,
@@ -235,11 +263,8 @@ function withFloatingBehavior<T extends object>(
       floatAnchored = cachedFloatAnchored;
       backdrop = layered;
     } else {
-      elementPos = localToGlobal(
-        draggedLayer.element.props.transform,
-        ctx.anchorPos,
-      );
-      const { remaining, extracted } = layeredExtract(layered, draggedId);
+      elementPos = localToGlobal(dragged.accumulatedTransform, ctx.anchorPos);
+      const { remaining, extracted } = layeredExtractPath(layered, draggedPath);
       floatAnchored = layeredTransform(
         extracted,
         translate(elementPos.mul(-1)),
@@ -311,9 +336,13 @@ function closestBehavior<T extends object>(
   }
 
   const subBehaviors = spec.specs.map((s) => dragSpecToBehavior(s, ctx));
-
-  // This is actual memory!
-  let lastBestIndex: number | null = null;
+  const choose = makeStatusQuoChooser(
+    {
+      ...spec.hysteresis,
+      toCurrent: (spec.hysteresis?.toCurrent ?? 0) + spec.stickiness,
+    },
+    ctx,
+  );
 
   return (frame) => {
     if (fixedResult) {
@@ -321,28 +350,79 @@ function closestBehavior<T extends object>(
     }
 
     const subResults = subBehaviors.map((b) => b(frame));
-    const [bestIndex, best] = _.minBy(
-      Array.from(subResults.entries()),
-      ([idx, r]) => r.gap - (idx === lastBestIndex ? spec.stickiness : 0),
-    )!;
-    lastBestIndex = bestIndex;
+    const { index: bestIndex, biases } = choose(
+      frame,
+      subResults.map((r) => ({ state: r.dropState, score: r.gap })),
+    );
+    const best = subResults[bestIndex];
     return {
       ...best,
       activePath: `closest/${bestIndex}/${best.activePath}`,
       tracedSpec: setTraceInfo(
         { ...spec, specs: subResults.map((r) => r.tracedSpec) },
-        { bestIndex },
+        { bestIndex, biases },
       ),
     };
   };
 }
 
+/**
+ * Choose among options by lowest score (a gap or distance, in px),
+ * less each option's status-quo bias (see `Hysteresis`). Make one
+ * per behavior: it remembers the current choice from frame to frame.
+ */
+function makeStatusQuoChooser<T extends object>(
+  { toStart = 0, toCurrent = 0, fade }: Hysteresis,
+  ctx: DragInitContext<T>,
+): (
+  frame: DragFrame,
+  options: { state: T; score: number }[],
+) => { index: number; biases: number[] } {
+  const startTime = ctx.clock.now();
+  let startPointer: Vec2 | null = null;
+  // This is actual memory!
+  let current: number | null = null;
+
+  return (frame, options) => {
+    startPointer ??= frame.pointer;
+    let startBias = toStart;
+    if (startBias > 0 && fade) {
+      const progress =
+        "distance" in fade
+          ? frame.pointer.dist(startPointer) / fade.distance
+          : (ctx.clock.now() - startTime) / fade.time;
+      startBias *= Math.max(0, 1 - progress);
+    }
+    const biases = options.map(
+      (option, i) =>
+        (i === current ? toCurrent : 0) +
+        (startBias > 0 && _.isEqual(option.state, ctx.startState)
+          ? startBias
+          : 0),
+    );
+    const index = _.minBy(
+      _.range(options.length),
+      (i) => options[i].score - biases[i],
+    )!;
+    current = index;
+    return { index, biases };
+  };
+}
+
 function whenFarBehavior<T extends object>(
   spec: DragSpecData<T> & { type: "when-far" },
   ctx: DragInitContext<T>,
 ): DragBehavior<T> {
   const foregroundBehavior = dragSpecToBehavior(spec.foreground, ctx);
   const backdropBehavior = dragSpecToBehavior(spec.background, ctx);
+  if (spec.blend) {
+    return whenFarBlendBehavior(
+      spec,
+      spec.blend,
+      foregroundBehavior,
+      backdropBehavior,
+    );
+  }
   let lastInForeground = true;
   return (frame) => {
     const foregroundResult = foregroundBehavior(frame);
@@ -360,7 +440,7 @@ function whenFarBehavior<T extends object>(
             foreground: foregroundResult.tracedSpec,
             background: bgResult.tracedSpec,
           },
-          { inForeground: false },
+          { inForeground: false, blend: 1 },
         ),
       };
     }
@@ -369,7 +449,55 @@ function whenFarBehavior<T extends object>(
       activePath: `when-far/fg/${foregroundResult.activePath}`,
       tracedSpec: setTraceInfo(
         { ...spec, foreground: foregroundResult.tracedSpec },
-        { inForeground: true },
+        { inForeground: true, blend: 0 },
+      ),
+    };
+  };
+}
+
+function whenFarBlendBehavior<T extends object>(
+  spec: DragSpecData<T> & { type: "when-far" },
+  { inner, outer }: WhenFarBlend,
+  foregroundBehavior: DragBehavior<T>,
+  backdropBehavior: DragBehavior<T>,
+): DragBehavior<T> {
+  return (frame) => {
+    const foregroundResult = foregroundBehavior(frame);
+    const blend = _.clamp(
+      (foregroundResult.gap - inner) / (outer - inner),
+      0,
+      1,
+    );
+    if (blend === 0) {
+      return {
+        ...foregroundResult,
+        activePath: `when-far/fg/${foregroundResult.activePath}`,
+        tracedSpec: setTraceInfo(
+          { ...spec, foreground: foregroundResult.tracedSpec },
+          { inForeground: true, blend },
+        ),
+      };
+    }
+    const bgResult = backdropBehavior(frame);
+    const inForeground = blend < 0.5;
+    const dominant = inForeground ? foregroundResult : bgResult;
+    return {
+      ...dominant,
+      preview: lerpLayeredWeighted(
+        [foregroundResult.preview, bgResult.preview],
+        new Map([
+          [0, 1 - blend],
+          [1, blend],
+        ]),
+      ),
+      activePath: `when-far/${inForeground ? "fg" : "bg"}/${dominant.activePath}`,
+      tracedSpec: setTraceInfo(
+        {
+          ...spec,
+          foreground: foregroundResult.tracedSpec,
+          background: bgResult.tracedSpec,
+        },
+        { inForeground, blend },
       ),
     };
   };
@@ -446,8 +574,9 @@ function varyFuncBehavior<T extends object>(
   spec: DragSpecData<T> & { type: "vary-func" },
   ctx: DragInitContext<T>,
 ): DragBehavior<T> {
-  // Compute the element position for a given set of params
-  const getElementPos = (params: number[]): Vec2 => {
+  // Compute the positions of the given anchors on the element for a
+  // given set of params
+  const getAnchorPositions = (params: number[], anchors: Vec2[]): Vec2[] => {
     const candidateState = spec.stateFromParams(params);
     const content = renderDraggableInertUnlayered(
       ctx.draggable,
@@ -456,8 +585,10 @@ function varyFuncBehavior<T extends object>(
       true,
     );
     const found = findByPath(ctx.draggedPath, content);
-    if (!found) return Vec2(Infinity, Infinity); // only used for optimization, not exposed
-    return localToGlobal(found.accumulatedTransform, ctx.anchorPos);
+    if (!found) return anchors.map(() => Vec2(Infinity, Infinity)); // only used for optimization, not exposed
+    return anchors.map((anchor) =>
+      localToGlobal(found.accumulatedTransform, anchor),
+    );
   };
 
   const { constraint, pin } = spec.options;
@@ -495,18 +626,28 @@ function varyFuncBehavior<T extends object>(
   const VARY_VIS_DURATION = 0.05; // seconds per explored value
   const VARY_VIS_FRACTION = 0.3; // how early in optimizer exploration to take samples from
   let varyVisCounter = 0;
-  let varyVisLastSwitch = performance.now() / 1000;
+  let varyVisLastSwitch = ctx.clock.now() / 1000;
   let varyVisSampledParams: number[] | null = null;
 
   return (frame) => {
-    minimizer.minimize(frame.pointer, getElementPos, {
-      constraints: constraintsFn,
-    });
+    // With a second contact, both contacts pull on the element, so a
+    // pinch scales and a twist rotates (if the params allow it).
+    const targets = [frame.pointer];
+    const anchors = [ctx.anchorPos];
+    if (frame.gesture) {
+      targets.push(frame.gesture.pointer2);
+      anchors.push(frame.gesture.anchorPos2);
+    }
+    minimizer.minimizeMany(
+      targets,
+      (params) => getAnchorPositions(params, anchors),
+      { constraints: constraintsFn },
+    );
 
     let resultParams = minimizer.params;
     let activePathSuffix = "";
     if (ctx.debug.varyVisualizer && minimizer.exploredValues.length > 0) {
-      const now = performance.now() / 1000;
+      const now = ctx.clock.now() / 1000;
       if (now - varyVisLastSwitch >= VARY_VIS_DURATION) {
         varyVisCounter++;
         varyVisLastSwitch = now;
@@ -667,6 +808,72 @@ function withDropTransitionBehavior<T extends object>(
   });
 }
 
+function withMomentumBehavior<T extends object>(
+  spec: DragSpecData<T> & { type: "with-momentum" },
+  ctx: DragInitContext<T>,
+): DragBehavior<T> {
+  const subBehavior = dragSpecToBehavior(spec.inner, ctx);
+  return (frame) => {
+    const result = subBehavior(frame);
+    const wrap = (r: DragResult<T>, projectedPointer?: Vec2) => ({
+      ...r,
+      activePath: `with-momentum/${r.activePath}`,
+      tracedSpec: setTraceInfo(
+        { ...spec, inner: r.tracedSpec },
+        { projectedPointer },
+      ),
+    });
+
+    const { velocity } = frame;
+    if (!frame.dropping || !velocity || velocity.len2() === 0) {
+      return wrap(result);
+    }
+
+    const projectedPointer = frame.pointer.add(
+      velocity.mul(spec.projectionTime),
+    );
+    const thrown = subBehavior({ ...frame, pointer: projectedPointer });
+
+    // Ease out from the release velocity: the element starts moving
+    // towards its drop position as fast as it was already moving.
+    let dropTransition = thrown.dropTransition;
+    const transition = resolveTransitionLike(dropTransition);
+    const fromPos = getElementPosition(ctx, result.preview);
+    const toPos = getElementPosition(
+      ctx,
+      renderStateReadOnly(ctx, thrown.dropState),
+    );
+    if (transition && fromPos && toPos) {
+      const dist = toPos.dist(fromPos);
+      if (dist > 1e-6) {
+        const speedTowards = velocity.dot(toPos.sub(fromPos)) / dist;
+        const { easing } = transition;
+        dropTransition =
+          typeof easing === "object"
+            ? // Springs take an initial velocity directly (in progress
+              // per second)
+              spring({ ...easing, velocity: (speedTowards / dist) * 1000 })
+            : {
+                ...transition,
+                easing: easeWithInitialSlope(
+                  (speedTowards * transition.duration) / dist,
+                ),
+              };
+      }
+    }
+
+    return wrap(
+      {
+        ...result,
+        dropState: thrown.dropState,
+        dropTransition,
+        tracedSpec: thrown.tracedSpec,
+      },
+      projectedPointer,
+    );
+  };
+}
+
 function withBranchTransitionBehavior<T extends object>(
   spec: DragSpecData<T> & { type: "with-branch-transition" },
   ctx: DragInitContext<T>,
@@ -826,6 +1033,7 @@ function betweenProjectAndRender<T extends object>(
   delaunay: Delaunay,
   frame: DragFrame,
   spec: DragSpecData<T> & { type: "between" },
+  choose: ReturnType<typeof makeStatusQuoChooser<T>>,
 ): DragResult<T> {
   const projection = delaunay.projectOntoConvexHull(frame.pointer);
   const delaunayTriangles = delaunay.triangles();
@@ -857,11 +1065,16 @@ function betweenProjectAndRender<T extends object>(
     weights,
   );
 
-  // Drop state: closest rendered state by pointer distance
-  const closest = _.minBy(renderedStates, (rs) =>
-    rs.position.dist(frame.pointer),
-  )!;
-  const closestIndex = renderedStates.indexOf(closest);
+  // Drop state: closest rendered state by pointer distance (give or
+  // take hysteresis)
+  const { index: closestIndex, biases } = choose(
+    frame,
+    renderedStates.map((rs) => ({
+      state: rs.state,
+      score: rs.position.dist(frame.pointer),
+    })),
+  );
+  const closest = renderedStates[closestIndex];
 
   return {
     preview,
@@ -876,8 +1089,10 @@ function betweenProjectAndRender<T extends object>(
       closestIndex,
       outputPreview: preview,
       delaunayTriangles,
+      convexHull: delaunay.hull(),
       projectedPoint: projection.projectedPt,
       weights,
+      biases,
     }),
   };
 }
@@ -936,9 +1151,10 @@ function betweenFixedBehavior<T extends object>(
     };
   });
   const delaunay = betweenMakeDelaunay(renderedStates, ctx);
+  const choose = makeStatusQuoChooser(spec.hysteresis ?? {}, ctx);
 
   return (frame) =>
-    betweenProjectAndRender(renderedStates, delaunay, frame, spec);
+    betweenProjectAndRender(renderedStates, delaunay, frame, spec, choose);
 }
 
 function betweenDynamicBehavior<T extends object>(
@@ -946,6 +1162,7 @@ function betweenDynamicBehavior<T extends object>(
   ctx: DragInitContext<T>,
 ): DragBehavior<T> {
   const subBehaviors = spec.specs.map((s) => dragSpecToBehavior(s, ctx));
+  const choose = makeStatusQuoChooser(spec.hysteresis ?? {}, ctx);
 
   return (frame) => {
     const subResults = subBehaviors.map((b) => b(frame));
@@ -958,7 +1175,13 @@ function betweenDynamicBehavior<T extends object>(
       specs: subResults.map((r) => r.tracedSpec),
     };
     const delaunay = betweenMakeDelaunay(renderedStates, ctx);
-    return betweenProjectAndRender(renderedStates, delaunay, frame, tracedSpec);
+    return betweenProjectAndRender(
+      renderedStates,
+      delaunay,
+      frame,
+      tracedSpec,
+      choose,
+    );
   };
 }
 
@@ -26,13 +26,19 @@ export type DragSpecData<T extends object> = {
       ghost: SvgxProps | undefined;
       tether: ((dist: number) => number) | undefined;
     }
-  | { type: "closest"; specs: DragSpecData<T>[]; stickiness: number }
+  | {
+      type: "closest";
+      specs: DragSpecData<T>[];
+      stickiness: number;
+      hysteresis?: Hysteresis;
+    }
   | {
       type: "when-far";
       foreground: DragSpecData<T>;
       background: DragSpecData<T>;
       gapIn: number;
       gapOut: number;
+      blend?: WhenFarBlend;
     }
   | {
       type: "on-drop";
@@ -78,11 +84,17 @@ export type DragSpecData<T extends object> = {
       inner: DragSpecData<T>;
       transition: Transition | false;
     }
+  | {
+      type: "with-momentum";
+      inner: DragSpecData<T>;
+      projectionTime: number;
+    }
   | {
       type: "between";
       specs: DragSpecData<T>[];
       interpolation?: BetweenInterpolation;
       sharpness?: number;
+      hysteresis?: Hysteresis;
     }
   | {
       type: "switch-to-state-and-follow";
@@ -130,8 +142,16 @@ export type DragSpecData<T extends object> = {
 );
 
 export type WhenFarOptions =
-  | { gap?: number; gapIn?: never; gapOut?: never }
-  | { gap?: never; gapIn?: number; gapOut?: number };
+  | { gap?: number; gapIn?: never; gapOut?: never; blend?: never }
+  | { gap?: never; gapIn?: number; gapOut?: number; blend?: never }
+  | { gap?: never; gapIn?: never; gapOut?: never; blend: WhenFarBlend };
+
+/**
+ * A band of gaps over which `whenFar` fades from its foreground's
+ * preview (at `inner` and closer) to its background's (at `outer`
+ * and further). The drop state comes from whichever side shows more.
+ */
+export type WhenFarBlend = { inner: number; outer: number };
 
 export type FloatingOptions = {
   ghost?: SvgxProps | true;
@@ -155,6 +175,28 @@ export type Chaining<T extends object> = {
 
 export type BetweenInterpolation = "delaunay" | "natural-neighbor";
 
+/**
+ * A bias toward the status quo, for behaviors that choose between
+ * options (`d.closest` and `d.between`'s drop state). Biases are in
+ * pixels: an option with a bias of 10 wins over one that's up to
+ * 10px closer.
+ */
+export type Hysteresis = {
+  /**
+   * Bias toward the option that keeps the drag's start state, so
+   * that a little wobble at the start of a drag doesn't leave it.
+   */
+  toStart?: number;
+  /** Bias toward whichever option is currently chosen. */
+  toCurrent?: number;
+  /**
+   * Fade `toStart` out (linearly) as the pointer gets this far (in
+   * px) from where the drag started, or as this much time (in ms)
+   * passes. Without this, it stays constant.
+   */
+  fade?: { distance: number } | { time: number };
+};
+
 // # DragSpec
 
 // Full API, including methods and a brand.
@@ -181,7 +223,9 @@ export interface DragSpecMethods<T extends object> {
   /**
    * Switch to an alternate behavior when the pointer gets more than
    * a certain distance ("gap") away. This distance is 50 pixels by
-   * default, but can be configured via the `gap` option.
+   * default, but can be configured via the `gap` option. Or, with
+   * the `blend` option, fade between the two previews as the gap
+   * goes from an inner to an outer radius.
    */
   whenFar(background: DragSpecLike<T>, opts?: WhenFarOptions): DragSpec<T>;
 
@@ -203,6 +247,16 @@ export interface DragSpecMethods<T extends object> {
    */
   withDropTransition(transition: TransitionLike): DragSpec<T>;
 
+  /**
+   * Let the pointer's velocity carry through a drop: the drop state
+   * is taken from where the pointer would be `projectionTime` ms
+   * after release (150 by default) if it kept moving, so a quick
+   * flick lands further along. The drop transition keeps its
+   * duration but eases out from the release velocity (or, for a
+   * spring, starts with it).
+   */
+  withMomentum(opts?: { projectionTime?: number }): DragSpec<T>;
+
   /**
    * Set a transition to be used when switching between branches of a
    * behavior. "Branches" isn't yet a very well-established concept,
@@ -288,6 +342,23 @@ const dragSpecMethods: DragSpecMethods<any> & ThisType<DragSpec<any>> = {
     });
   },
   whenFar(bg, opts: WhenFarOptions = {}) {
+    if (opts.blend) {
+      const { inner, outer } = opts.blend;
+      assert(
+        inner < outer,
+        `whenFar: blend inner (${inner}) must be < outer (${outer})`,
+      );
+      // The sides trade dominance halfway through the band.
+      const mid = (inner + outer) / 2;
+      return attachMethods({
+        type: "when-far",
+        foreground: this,
+        background: resolveDragSpecLike(bg),
+        gapIn: mid,
+        gapOut: mid,
+        blend: opts.blend,
+      });
+    }
     const gap = opts.gap ?? 50;
     const gapIn = opts.gapIn ?? gap;
     const gapOut = opts.gapOut ?? gap;
@@ -319,6 +390,13 @@ const dragSpecMethods: DragSpecMethods<any> & ThisType<DragSpec<any>> = {
       transition: resolveTransitionLike(transition),
     });
   },
+  withMomentum({ projectionTime = 150 } = {}) {
+    return attachMethods({
+      type: "with-momentum",
+      inner: this,
+      projectionTime,
+    });
+  },
   withBranchTransition(transition) {
     return attachMethods({
       type: "with-branch-transition",
@@ -418,6 +496,12 @@ export class DragSpecBuilder<T extends object> {
        * targets it is closest to, limiting to d.closest at infinity.
        */
       sharpness?: number;
+      /**
+       * Bias the drop state (the target closest to the pointer)
+       * toward the start state or the current drop state. This
+       * doesn't change the interpolated preview.
+       */
+      hysteresis?: Hysteresis;
     },
   ): DragSpec<T> {
     const resolved = manyToArray(specs).map(resolveDragSpecLike);
@@ -427,6 +511,7 @@ export class DragSpecBuilder<T extends object> {
       specs: resolved,
       interpolation: options?.interpolation,
       sharpness: options?.sharpness,
+      hysteresis: options?.hysteresis,
     });
   }
 
@@ -441,15 +526,18 @@ export class DragSpecBuilder<T extends object> {
       /**
        * Stickiness tells `d.closest` to stay on the current option
        * until its gap is `stickiness` pixels bigger than the
-       * next-best option.
+       * next-best option. (It adds to `hysteresis.toCurrent`.)
        */
       stickiness?: number;
+      /** Bias the choice toward the start state or current option. */
+      hysteresis?: Hysteresis;
     },
   ): DragSpec<T> {
     return attachMethods({
       type: "closest",
       specs: manyToArray(specs).map(resolveDragSpecLike),
       stickiness: options?.stickiness ?? 0,
+      hysteresis: options?.hysteresis,
     });
   }
 
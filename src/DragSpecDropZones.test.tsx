@@ -0,0 +1,248 @@
+// @vitest-environment jsdom
+import { act, renderHook } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { manualClock } from "./clock";
+import { Draggable, getOnDragCallbackOnElement } from "./draggable";
+import { DragStatus } from "./DraggableRenderer";
+import {
+  dropZoneLabel,
+  runDropZones,
+  useDropZoneData,
+} from "./DragSpecDropZones";
+import { DragPointers, simulateDragHeadless } from "./headless";
+import { Vec2 } from "./math/vec2";
+import { renderDraggableInertUnlayered } from "./renderDraggable";
+import { findElement } from "./svgx";
+import { translate } from "./svgx/helpers";
+import { getPath } from "./svgx/path";
+import { assert } from "./utils/assert";
+
+type State = { x: number; y: number };
+
+const corners: State[] = [
+  { x: 0, y: 0 },
+  { x: 100, y: 0 },
+  { x: 0, y: 100 },
+];
+
+// A dot that blends between three corners, or (with `away`) also
+// snaps to a spot off to the side.
+function dot(away: boolean): Draggable<State> {
+  return ({ state, d }) => (
+    <circle
+      id="dot"
+      transform={translate(state.x, state.y)}
+      r={10}
+      dragologyOnDrag={() =>
+        away
+          ? d.closest([d.between(corners), d.fixed({ x: 300, y: 0 })])
+          : d.between(corners)
+      }
+    />
+  );
+}
+
+/** The labeled result of the last frame before dropping. */
+function labelAt(draggable: Draggable<State>, pointers: DragPointers) {
+  const { results } = simulateDragHeadless(
+    draggable,
+    corners[0],
+    "dot",
+    pointers,
+  );
+  const result = results[results.length - 1];
+  return { ...dropZoneLabel(result), activePath: result.activePath };
+}
+
+describe("dropZoneLabel", () => {
+  it("splits a between by which state it would drop on", () => {
+    const near1 = labelAt(dot(false), ["center", [90, 10]]);
+    expect(near1.label).toBe(`${near1.activePath}/1`);
+    const near2 = labelAt(dot(false), ["center", [10, 90]]);
+    expect(near2.label).toBe(`${near2.activePath}/2`);
+  });
+
+  it("overlays the between's triangulation", () => {
+    const { between, activePath } = labelAt(dot(false), ["center", [20, 20]]);
+    expect(between?.points.map((p) => p.activePath)).toEqual(
+      [0, 1, 2].map((i) => `${activePath}/${i}`),
+    );
+    expect(between?.points.map((p) => p.position.arr())).toEqual([
+      [0, 0],
+      [100, 0],
+      [0, 100],
+    ]);
+    expect(between?.triangles).toHaveLength(1);
+    expect(between?.hull).toHaveLength(3);
+  });
+
+  it("finds a between on the active branch of a closest", () => {
+    const inside = labelAt(dot(true), ["center", [90, 10]]);
+    expect(inside.label).toBe(`${inside.activePath}/1`);
+    expect(inside.between).not.toBeNull();
+
+    const away = labelAt(dot(true), ["center", [290, 0]]);
+    expect(away.label).toBe(away.activePath);
+    expect(away.between).toBeNull();
+  });
+});
+
+describe("runDropZones", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Run tasks until `fn` has been called. */
+  function untilCalled(fn: ReturnType<typeof vi.fn>) {
+    for (let i = 0; i < 1000 && fn.mock.calls.length === 0; i++) {
+      vi.advanceTimersToNextTimer();
+    }
+  }
+
+  // Two zones, split off the coarse grid (which is every 32px).
+  function split() {
+    const samples: [number, number][] = [];
+    const sample = (x: number, y: number) => {
+      samples.push([x, y]);
+      return x < 20 ? "left" : "right";
+    };
+    return { samples, sample };
+  }
+
+  it("reports rough regions, then refines them", () => {
+    const { samples, sample } = split();
+    const onRegions = vi.fn();
+    runDropZones(sample, 64, 32, onRegions);
+    untilCalled(onRegions);
+
+    // The rough regions only need the coarse grid.
+    expect(onRegions).toHaveBeenCalledTimes(1);
+    const [rough, roughDone] = onRegions.mock.calls[0];
+    expect(roughDone).toBe(false);
+    expect([...rough.colorMap.keys()].sort()).toEqual(["left", "right"]);
+    expect(samples.every(([x, y]) => x % 32 === 0 && y % 32 === 0)).toBe(true);
+
+    vi.runAllTimers();
+    expect(onRegions).toHaveBeenCalledTimes(2);
+    const [fine, fineDone] = onRegions.mock.calls[1];
+    expect(fineDone).toBe(true);
+    expect(
+      fine.regions.map((r: { activePath: string }) => r.activePath),
+    ).toEqual(expect.arrayContaining(["left", "right"]));
+    // Only the cells the split runs through are refined.
+    const refined = samples.filter(([x]) => x % 32 !== 0);
+    expect(refined.length).toBeGreaterThan(0);
+    expect(refined.every(([x]) => x < 32)).toBe(true);
+  });
+
+  it("stops when told to", () => {
+    const { samples, sample } = split();
+    const onRegions = vi.fn();
+    const stop = runDropZones(sample, 64, 32, onRegions);
+    untilCalled(onRegions);
+    const sampled = samples.length;
+    stop();
+    vi.runAllTimers();
+    expect(onRegions).toHaveBeenCalledTimes(1);
+    expect(samples).toHaveLength(sampled);
+  });
+});
+
+describe("useDropZoneData", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // A dot that snaps to whichever of `spots` is closest.
+  const snapping =
+    (spots: State[]): Draggable<State> =>
+    ({ state, d }) => (
+      <circle
+        id="dot"
+        transform={translate(state.x, state.y)}
+        r={10}
+        dragologyOnDrag={() => d.closest(spots)}
+      />
+    );
+
+  /** Just enough of a drag's status for the hook. */
+  function draggingStatus(draggable: Draggable<State>) {
+    const startState = corners[0];
+    const content = renderDraggableInertUnlayered(
+      draggable,
+      startState,
+      null,
+      false,
+    );
+    const found = findElement(content, (el) => el.props.id === "dot");
+    assert(!!found);
+    const draggedPath = getPath(found.element);
+    assert(!!draggedPath);
+    return {
+      specForDropZoneVis: getOnDragCallbackOnElement<State>(found.element)!(),
+      behaviorCtx: {
+        draggable,
+        draggedPath,
+        draggedId: "dot",
+        anchorPos: Vec2(0),
+        startState,
+        debug: { varyVisualizer: false },
+        clock: manualClock(),
+      },
+    } as unknown as DragStatus<State> & { type: "dragging" };
+  }
+
+  const activePaths = (data: { regions: { activePath: string }[] } | null) =>
+    new Set(data?.regions.map((r) => r.activePath));
+
+  it("shows rough zones, then the finished ones", () => {
+    const status = draggingStatus(snapping([corners[0], corners[1]]));
+    const { result } = renderHook(() => useDropZoneData(status, 128, 64));
+    expect(result.current.computing).toBe(true);
+    expect(result.current.data).toBeNull();
+    for (let i = 0; i < 1000 && !result.current.data; i++) {
+      act(() => vi.advanceTimersToNextTimer());
+    }
+    expect(result.current.computing).toBe(true);
+    expect(activePaths(result.current.data)).toEqual(
+      new Set(["closest/0/fixed", "closest/1/fixed"]),
+    );
+
+    act(() => vi.runAllTimers());
+    expect(result.current.computing).toBe(false);
+    expect(activePaths(result.current.data)).toEqual(
+      new Set(["closest/0/fixed", "closest/1/fixed"]),
+    );
+  });
+
+  it("stops sampling the old drag when the drag changes", () => {
+    const first = snapping([corners[0], corners[1]]);
+    const second = snapping([corners[0], corners[2]]);
+    const { result, rerender } = renderHook(
+      ({ status }) => useDropZoneData(status, 128, 128),
+      { initialProps: { status: draggingStatus(first) } },
+    );
+    expect(result.current.computing).toBe(true);
+    expect(vi.getTimerCount()).toBe(1);
+
+    // Only the second drag's computation is left waiting to run.
+    rerender({ status: draggingStatus(second) });
+    expect(vi.getTimerCount()).toBe(1);
+    act(() => vi.runAllTimers());
+    expect(result.current.computing).toBe(false);
+    // The second drag's zones (split top from bottom), as if it had
+    // been the only one.
+    const secondAlone = draggingStatus(second);
+    const alone = renderHook(() => useDropZoneData(secondAlone, 128, 128));
+    act(() => vi.runAllTimers());
+    expect(result.current.data?.regions).toEqual(
+      alone.result.current.data?.regions,
+    );
+  });
+});
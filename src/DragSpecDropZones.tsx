@@ -1,5 +1,7 @@
 import { useEffect, useRef, useState } from "react";
-import { DragFrame, dragSpecToBehavior } from "./DragBehavior";
+import { DragFrame, DragResult, dragSpecToBehavior } from "./DragBehavior";
+import { DragSpecData } from "./DragSpec";
+import { activeChildSpec, getTraceInfo } from "./DragSpecTraceInfo";
 import { DragStatus } from "./DraggableRenderer";
 import { Vec2 } from "./math/vec2";
 
@@ -8,6 +10,20 @@ import { Vec2 } from "./math/vec2";
 export type DropZoneData = {
   regions: { activePath: string; svgPath: string; color: string }[];
   colorMap: Map<string, string>;
+  /**
+   * If a `d.between` is active somewhere on the plane: how it
+   * triangulates its states, to show why each zone drops where it
+   * does. (For a `d.between` whose states move with the pointer, this
+   * is from wherever it was first sampled.)
+   */
+  between: BetweenOverlay | null;
+};
+
+export type BetweenOverlay = {
+  triangles: Vec2[][];
+  hull: Vec2[];
+  /** Each rendered state's position, and the zone that drops on it. */
+  points: { position: Vec2; activePath: string }[];
 };
 
 // # Colors
@@ -26,7 +42,10 @@ const REGION_COLORS = [
 ];
 
 function assignColors(paths: string[]): Map<string, string> {
-  const sorted = [...new Set(paths)].sort();
+  // (Numeric, so that e.g. "between/10" comes after "between/2".)
+  const sorted = [...new Set(paths)].sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true }),
+  );
   const map = new Map<string, string>();
   for (let i = 0; i < sorted.length; i++) {
     map.set(sorted[i], REGION_COLORS[i % REGION_COLORS.length]);
@@ -302,10 +321,44 @@ export function DropZonesSvg({
           <path key={i} d={r.svgPath} fill={r.color} fillRule="evenodd" />
         ))}
       </g>
+      {data.between && (
+        <BetweenOverlaySvg overlay={data.between} colorMap={data.colorMap} />
+      )}
     </svg>
   );
 }
 
+function BetweenOverlaySvg({
+  overlay,
+  colorMap,
+}: {
+  overlay: BetweenOverlay;
+  colorMap: Map<string, string>;
+}) {
+  return (
+    <g fill="none" stroke="rgb(71, 85, 105)">
+      {overlay.triangles.map((tri, i) => (
+        <path
+          key={i}
+          d={polygonToSvgPath(tri)}
+          strokeWidth={0.75}
+          strokeDasharray="3 3"
+        />
+      ))}
+      <path d={polygonToSvgPath(overlay.hull)} strokeWidth={1.5} />
+      {overlay.points.map(({ position, activePath }, i) => (
+        <circle
+          key={i}
+          {...position.cxy()}
+          r={4}
+          fill={colorMap.get(activePath) ?? "white"}
+          strokeWidth={1.5}
+        />
+      ))}
+    </g>
+  );
+}
+
 // # Legend component
 
 export function DropZoneLegend({ data }: { data: DropZoneData }) {
@@ -345,28 +398,29 @@ export function DropZoneLegend({ data }: { data: DropZoneData }) {
 
 // # Cooperative drop zone generator
 //
-// Yields periodically so the main thread stays responsive during computation.
-// Uses a time budget: checks performance.now() every few samples and yields
-// when the chunk has exceeded CHUNK_BUDGET_MS.
+// Sampling runs the drag's behavior, which renders the draggable (a
+// closure over app code, which can't be sent to a worker). So this
+// runs on the main thread, in chunks: it yields whenever a
+// chunk has exceeded CHUNK_BUDGET_MS (checking after every sample,
+// since one sample of a big diagram can take a while), and yields a
+// rough picture of the zones once the coarse grid is done, before
+// refining it.
 
 const CHUNK_BUDGET_MS = 8;
-const CHECK_EVERY = 4;
+
+type DropZoneRegions = Omit<DropZoneData, "between">;
 
 function* computeDropZones(
   sample: (x: number, y: number) => string,
   width: number,
   height: number,
-): Generator<void, DropZoneData, void> {
+): Generator<DropZoneRegions | undefined, DropZoneRegions, void> {
   let chunkStart = performance.now();
-  let sinceCheck = 0;
 
   function* maybePause() {
-    if (++sinceCheck >= CHECK_EVERY) {
-      sinceCheck = 0;
-      if (performance.now() - chunkStart >= CHUNK_BUDGET_MS) {
-        yield;
-        chunkStart = performance.now();
-      }
+    if (performance.now() - chunkStart >= CHUNK_BUDGET_MS) {
+      yield undefined;
+      chunkStart = performance.now();
     }
   }
 
@@ -425,7 +479,20 @@ function* computeDropZones(
       for (let fc = fc0; fc <= fc1; fc++) needsFine[vi(fr, fc)] = true;
   }
 
-  yield;
+  // Until they're sampled, vertices in mixed cells take the value of
+  // the nearest coarse vertex.
+  const nearestCoarse = (f: number, fineMax: number) =>
+    Math.min(Math.round(f / COARSE_FACTOR) * COARSE_FACTOR, fineMax);
+  const roughVertices = vertices.map((v, i) => {
+    if (!needsFine[i]) return v;
+    const fr = Math.floor(i / (fineCols + 1));
+    const fc = i % (fineCols + 1);
+    return vertices[
+      vi(nearestCoarse(fr, fineRows), nearestCoarse(fc, fineCols))
+    ];
+  });
+  const rough = yield* traceRegions(roughVertices, fineCols, fineRows);
+  yield rough;
   chunkStart = performance.now();
 
   // --- Phase 3: Fine sampling ---
@@ -439,6 +506,42 @@ function* computeDropZones(
   }
 
   // --- Phase 4: Contour tracing + smoothing ---
+  return yield* traceRegions(vertices, fineCols, fineRows);
+}
+
+/**
+ * Run `computeDropZones`, a chunk per task, passing `onRegions` the
+ * rough regions and then the finished ones. Returns a function that
+ * stops it.
+ */
+export function runDropZones(
+  sample: (x: number, y: number) => string,
+  width: number,
+  height: number,
+  onRegions: (regions: DropZoneRegions, done: boolean) => void,
+): () => void {
+  const gen = computeDropZones(sample, width, height);
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+
+  function step() {
+    const result = gen.next();
+    if (result.done) {
+      onRegions(result.value, true);
+    } else {
+      if (result.value) onRegions(result.value, false);
+      timeout = setTimeout(step, 0);
+    }
+  }
+
+  step();
+  return () => clearTimeout(timeout);
+}
+
+function* traceRegions(
+  vertices: string[],
+  fineCols: number,
+  fineRows: number,
+): Generator<undefined, DropZoneRegions, void> {
   const pathSet = new Set<string>();
   for (const v of vertices) {
     if (v) pathSet.add(v);
@@ -468,13 +571,49 @@ function* computeDropZones(
     const smoothed = polygons.map((p) => smoothPolygon(p));
     const svgPath = smoothed.map(polygonToSvgPath).join(" ");
     regions.push({ activePath: path, color: colorMap.get(path)!, svgPath });
-    yield;
-    chunkStart = performance.now();
+    yield undefined;
   }
 
   return { regions, colorMap };
 }
 
+// # Labeling samples
+
+/**
+ * The zone a sample falls in: its active path, plus (since a
+ * `d.between` is one branch however its drop state changes) which of
+ * an active `d.between`'s states it would drop on.
+ */
+export function dropZoneLabel(result: DragResult<any>): {
+  label: string;
+  between: BetweenOverlay | null;
+} {
+  const between = activeBetween(result.tracedSpec);
+  const info = between && getTraceInfo(between);
+  if (!info) return { label: result.activePath, between: null };
+  const labelFor = (i: number) => `${result.activePath}/${i}`;
+  return {
+    label: labelFor(info.closestIndex),
+    between: {
+      triangles: info.delaunayTriangles,
+      hull: info.convexHull,
+      points: info.renderedStates.map((rs, i) => ({
+        position: rs.position,
+        activePath: labelFor(i),
+      })),
+    },
+  };
+}
+
+/** The `d.between` a traced spec's active branch ends in, if any. */
+function activeBetween(
+  spec: DragSpecData<any>,
+): (DragSpecData<any> & { type: "between" }) | null {
+  if (spec.type === "between") return spec;
+  const active = activeChildSpec(spec);
+  return active ? activeBetween(active) : null;
+}
+
 // # Hook: drives the generator cooperatively
 
 export function useDropZoneData<T extends object>(
@@ -486,21 +625,38 @@ export function useDropZoneData<T extends object>(
 
   const [data, setData] = useState<DropZoneData | null>(null);
   const [computing, setComputing] = useState(false);
-  const specRef = useRef(spec);
-  const dataRef = useRef(data);
-  dataRef.current = data;
+  // The drag (and size) the current data was finished for.
+  const doneRef = useRef<{
+    spec: typeof spec;
+    behaviorCtx: typeof behaviorCtx;
+    width: number;
+    height: number;
+  } | null>(null);
 
   useEffect(() => {
     if (!spec || !behaviorCtx) {
+      doneRef.current = null;
       setData(null);
       setComputing(false);
       return;
     }
 
-    // Only recompute when spec identity changes (new drag)
-    if (spec === specRef.current && dataRef.current !== null) return;
-    specRef.current = spec;
+    // Only recompute when the drag (its spec, or the context it's
+    // sampled in) or the size changes, or if a computation was cut
+    // short
+    const done = doneRef.current;
+    if (
+      done?.spec === spec &&
+      done.behaviorCtx === behaviorCtx &&
+      done.width === width &&
+      done.height === height
+    ) {
+      return;
+    }
+    doneRef.current = null;
 
+    // Zones from a previous drag would be misleading, even briefly.
+    setData(null);
     setComputing(true);
 
     // Create a separate behavior instance for sampling (doesn't interfere
@@ -512,33 +668,28 @@ export function useDropZoneData<T extends object>(
     // results here! However, recreating the behavior on every sample
     // can be costly, so we don't do that (yet).
 
+    let between: BetweenOverlay | null = null;
     function sample(x: number, y: number): string {
       const frame: DragFrame = { pointer: Vec2(x, y) };
       try {
-        return samplingBehavior(frame).activePath;
+        const labeled = dropZoneLabel(samplingBehavior(frame));
+        between ??= labeled.between;
+        return labeled.label;
       } catch {
         return "error";
       }
     }
 
-    const gen = computeDropZones(sample, width, height);
-    let cancelled = false;
-
-    function step() {
-      if (cancelled) return;
-      const result = gen.next();
-      if (result.done) {
-        setData(result.value);
+    const stop = runDropZones(sample, width, height, (regions, isDone) => {
+      setData({ ...regions, between });
+      if (isDone) {
+        doneRef.current = { spec, behaviorCtx, width, height };
         setComputing(false);
-      } else {
-        setTimeout(step, 0);
       }
-    }
-
-    step();
+    });
 
     return () => {
-      cancelled = true;
+      stop();
       setComputing(false);
     };
   }, [spec, behaviorCtx, width, height]);
@@ -19,8 +19,19 @@ export type DragSpecTraceInfoByType = {
      */
     elementPos: Vec2 | null;
   };
-  closest: { bestIndex: number };
-  "when-far": { inForeground: boolean };
+  closest: {
+    bestIndex: number;
+    /** Each option's status-quo bias this frame (see `Hysteresis`). */
+    biases: number[];
+  };
+  "when-far": {
+    inForeground: boolean;
+    /**
+     * How much of the background's preview shows, from 0 to 1. (Only
+     * ever in between with a blend band.)
+     */
+    blend: number;
+  };
   "on-drop": Record<string, never>;
   during: { outputPreview: LayeredSvgx };
   vary: {
@@ -41,15 +52,23 @@ export type DragSpecTraceInfoByType = {
     outputPreview: LayeredSvgx;
   };
   "with-drop-transition": Record<string, never>;
+  "with-momentum": {
+    /** Where the drop state was taken from, on a flung drop. */
+    projectedPointer?: Vec2;
+  };
   "with-branch-transition": Record<string, never>;
   between: {
     renderedStates: RenderedState[];
     closestIndex: number;
     outputPreview: LayeredSvgx;
     delaunayTriangles: Vec2[][];
+    /** The hull of the rendered states' positions, in cyclic order. */
+    convexHull: Vec2[];
     projectedPoint: Vec2;
     /** Index → weight for each state contributing to the interpolation. */
     weights: Map<number, number>;
+    /** Each state's status-quo bias this frame (see `Hysteresis`). */
+    biases: number[];
   };
   "switch-to-state-and-follow": {
     tracedInner: DragSpecData<any>;
@@ -84,3 +103,52 @@ export function setTraceInfo<S extends DragSpecData<any>>(
 ): S {
   return { ...spec, traceInfo };
 }
+
+/**
+ * The children of a traced spec node, including the inner specs that
+ * `switch-to-state-and-follow` and `react-to` only know once traced.
+ */
+export function tracedChildSpecs(s: DragSpecData<any>): DragSpecData<any>[] {
+  switch (s.type) {
+    case "closest":
+    case "between":
+      return s.specs;
+    case "when-far":
+      return [s.foreground, s.background];
+    case "substate":
+      return [s.innerSpec];
+    case "switch-to-state-and-follow":
+    case "react-to": {
+      const tracedInner = getTraceInfo(s)?.tracedInner;
+      return tracedInner ? [tracedInner] : [];
+    }
+    default:
+      return "inner" in s ? [s.inner] : [];
+  }
+}
+
+/**
+ * The child a traced spec node's active branch runs through: the best
+ * option of a `closest`, the side of a `when-far` that's in charge,
+ * or a wrapper's only child. Null if there's no one active child
+ * (e.g. the options of a `between`, which are all blended).
+ */
+export function activeChildSpec(
+  s: DragSpecData<any>,
+): DragSpecData<any> | null {
+  switch (s.type) {
+    case "closest": {
+      const bestIndex = getTraceInfo(s)?.bestIndex;
+      return bestIndex === undefined ? null : s.specs[bestIndex];
+    }
+    case "when-far": {
+      const info = getTraceInfo(s);
+      if (!info) return null;
+      return info.inForeground ? s.foreground : s.background;
+    }
+    case "between":
+      return null;
+  }
+  const children = tracedChildSpecs(s);
+  return children.length === 1 ? children[0] : null;
+}
@@ -185,8 +185,9 @@ function SpecNode<T extends object>({
       </Box>
     );
   } else if (spec.type === "when-far") {
-    const gapLabel =
-      spec.gapIn === spec.gapOut
+    const gapLabel = spec.blend
+      ? `blend=${spec.blend.inner}–${spec.blend.outer}`
+      : spec.gapIn === spec.gapOut
         ? `gap=${spec.gapIn}`
         : `gapIn=${spec.gapIn} gapOut=${spec.gapOut}`;
     return (
@@ -319,6 +320,13 @@ function SpecNode<T extends object>({
         )}
       </Box>
     );
+  } else if (spec.type === "with-momentum") {
+    const { childPath } = info(spec);
+    return (
+      <Box label={`withMomentum (${spec.projectionTime}ms)`} path={path}>
+        <SpecNode spec={spec.inner} path={childPath} />
+      </Box>
+    );
   } else if (spec.type === "with-branch-transition") {
     const { childPath } = info(spec);
     return (
@@ -568,7 +576,14 @@ function Slot({
 /** Format a Transition for display. */
 function describeTransition(t: Transition | false): string {
   if (!t) return "none";
-  return `${typeof t.easing === "function" ? "fn" : t.easing} ${t.duration}ms`;
+  const { easing } = t;
+  const delay =
+    (t.delay ? ` +${t.delay}ms delay` : "") +
+    (t.stagger ? ` +${t.stagger}ms stagger` : "");
+  if (typeof easing === "object") {
+    return `spring k=${easing.stiffness} c=${easing.damping} m=${easing.mass}${delay}`;
+  }
+  return `${typeof easing === "function" ? "fn" : easing} ${t.duration}ms${delay}`;
 }
 
 function truncate(s: string, maxLen: number): string {
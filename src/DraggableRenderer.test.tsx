@@ -0,0 +1,617 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render } from "@testing-library/react";
+import { produce } from "immer";
+import _ from "lodash";
+import { createRef } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ManualClock, manualClock } from "./clock";
+import { Draggable } from "./draggable";
+import {
+  DraggableRenderer,
+  DraggableRendererBaseProps,
+  DraggableRendererHandle,
+} from "./DraggableRenderer";
+import { DragRecording } from "./dragRecording";
+import { param } from "./DragSpec";
+import { recordDragHeadless } from "./headless";
+import { Vec2 } from "./math/vec2";
+import { translate } from "./svgx/helpers";
+import { localToGlobal } from "./svgx/transform";
+import { useDraggableHistory } from "./useDraggableHistory";
+import { assert } from "./utils/assert";
+
+type State = { perm: string[] };
+
+const TILE = 50;
+
+/** Tiles in a row. With `chain`, a drag chains on every swap. */
+const permDraggable =
+  (chain: boolean): Draggable<State> =>
+  ({ state, d }) => (
+    <g>
+      {state.perm.map((p, idx) => (
+        <rect
+          id={p}
+          key={p}
+          transform={translate(idx * TILE, 0)}
+          width={TILE}
+          height={TILE}
+          dragologyOnDrag={() => {
+            const spec = d.closest(
+              _.range(state.perm.length).map((i) =>
+                produce(state, (draft) => {
+                  draft.perm.splice(draft.perm.indexOf(p), 1);
+                  draft.perm.splice(i, 0, p);
+                }),
+              ),
+            );
+            return chain ? spec.withChaining() : spec;
+          }}
+        />
+      ))}
+    </g>
+  );
+
+const perm = permDraggable(false);
+
+const initial: State = { perm: ["A", "B", "C"] };
+
+// jsdom doesn't lay SVGs out; the renderer only needs this to be 0 to
+// take client coordinates as-is.
+Object.defineProperty(SVGSVGElement.prototype, "width", {
+  configurable: true,
+  get: () => ({ baseVal: { value: 0 } }),
+});
+
+function renderPerm(
+  props: Partial<DraggableRendererBaseProps<State>> & {
+    history?: boolean;
+  } = {},
+) {
+  const clock = manualClock();
+  const { container } = render(
+    <DraggableRenderer
+      draggable={perm}
+      initialState={initial}
+      clock={clock}
+      {...props}
+    />,
+  );
+  return handles(container, clock);
+}
+
+function handles(container: HTMLElement, clock: ManualClock) {
+  const el = (id: string) => {
+    const found = container.querySelector(`#${id}`);
+    assert(!!found, `no element #${id}`);
+    return found;
+  };
+  return {
+    clock,
+    el,
+    svg: () => container.querySelector("svg")!,
+    /** Where tile `id` is displayed. */
+    xOf: (id: string) =>
+      localToGlobal(el(id).getAttribute("transform") ?? "", Vec2(0)).x,
+    /** Advance the clock and run a frame. */
+    tick: (ms = 16) => {
+      clock.advance(ms);
+      act(() => vi.advanceTimersToNextFrame());
+    },
+  };
+}
+
+const pointerDown = (el: Element, pointerId: number, [x, y]: number[]) =>
+  fireEvent.pointerDown(el, { pointerId, clientX: x, clientY: y });
+const pointerMove = (pointerId: number, [x, y]: number[]) =>
+  fireEvent.pointerMove(document, { pointerId, clientX: x, clientY: y });
+const pointerUp = (pointerId: number, [x, y]: number[]) =>
+  fireEvent.pointerUp(document, { pointerId, clientX: x, clientY: y });
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["requestAnimationFrame"] });
+});
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+const recording = recordDragHeadless(perm, initial, "A", [
+  [25, 25],
+  [75, 25],
+  [125, 25],
+]);
+
+/** Replay a recording, and collect the lifecycle events it reports. */
+function replayWithLifecycle(replay: DragRecording<State>): unknown[][] {
+  const events: unknown[][] = [];
+  const clock = manualClock();
+  render(
+    <DraggableRenderer
+      draggable={perm}
+      initialState={initial}
+      replay={replay}
+      clock={clock}
+      onDragStart={(...args) => events.push(["start", ...args])}
+      onBranchChange={(...args) => events.push(["branch", ...args])}
+      onChain={(...args) => events.push(["chain", ...args])}
+      onDragEnd={(...args) => events.push(["end", ...args])}
+    />,
+  );
+  for (let i = 0; i < 10; i++) {
+    clock.advance(16);
+    act(() => vi.advanceTimersToNextFrame());
+  }
+  return events;
+}
+
+describe("lifecycle callbacks", () => {
+  it("report a drag's start, branch changes, and end", () => {
+    const events = replayWithLifecycle(recording);
+    expect(events).toEqual([
+      ["start", "A", initial],
+      ["branch", "closest/1/fixed", { draggedId: "A" }],
+      ["branch", "closest/2/fixed", { draggedId: "A" }],
+      ["end", { perm: ["B", "C", "A"] }, { cancelled: false, draggedId: "A" }],
+    ]);
+  });
+
+  it("report cancelled drags", () => {
+    // A recording that stops without dropping was cancelled.
+    const events = replayWithLifecycle({
+      ...recording,
+      frames: recording.frames.slice(0, -1),
+      dropState: null,
+    });
+    expect(events.at(-1)).toEqual([
+      "end",
+      initial,
+      { cancelled: true, draggedId: "A" },
+    ]);
+  });
+});
+
+describe("ref handle", () => {
+  function renderWithHandle(props: { onDropState?: (state: State) => void }) {
+    const ref = createRef<DraggableRendererHandle<State>>();
+    const clock = manualClock();
+    render(
+      <DraggableRenderer
+        ref={ref}
+        draggable={perm}
+        initialState={initial}
+        clock={clock}
+        {...props}
+      />,
+    );
+    return { handle: ref.current!, clock };
+  }
+
+  it("finds where elements are drawn", () => {
+    const { handle } = renderWithHandle({});
+    expect(handle.getElementBounds("B")).toEqual({
+      empty: false,
+      minX: TILE,
+      minY: 0,
+      maxX: 2 * TILE,
+      maxY: TILE,
+    });
+    expect(handle.getElementBounds("Z")).toBeNull();
+  });
+
+  it("animates to a state", () => {
+    const onDropState = vi.fn();
+    const { handle, clock } = renderWithHandle({ onDropState });
+    act(() => handle.animateTo({ perm: ["C", "B", "A"] }, "100ms"));
+    expect(onDropState).toHaveBeenCalledWith(
+      { perm: ["C", "B", "A"] },
+      { transition: "100ms" },
+    );
+    // On its way...
+    clock.advance(50);
+    const halfway = handle.getElementBounds("A");
+    assert(!!halfway && !halfway.empty);
+    expect(halfway.minX).toBeGreaterThan(0);
+    expect(halfway.minX).toBeLessThan(2 * TILE);
+    // ...and there.
+    clock.advance(100);
+    expect(handle.getElementBounds("A")).toMatchObject({ minX: 2 * TILE });
+  });
+
+  it("starts keyboard drags", () => {
+    // Refocusing the dragged element after the drop needs this, which
+    // jsdom doesn't have.
+    vi.stubGlobal("CSS", { escape: (s: string) => s });
+    const onDropState = vi.fn();
+    const { handle } = renderWithHandle({ onDropState });
+    expect(handle.startDrag("Z")).toBe(false);
+    act(() => {
+      expect(handle.startDrag("A")).toBe(true);
+    });
+    expect(handle.startDrag("B")).toBe(false);
+    act(() => {
+      fireEvent.keyDown(document, { key: "ArrowRight" });
+    });
+    act(() => {
+      fireEvent.keyDown(document, { key: "Enter" });
+    });
+    expect(onDropState).toHaveBeenCalledWith(
+      { perm: ["B", "A", "C"] },
+      expect.anything(),
+    );
+  });
+
+  it("cancels drags", () => {
+    const onDragCancel = vi.fn();
+    const ref = createRef<DraggableRendererHandle<State>>();
+    render(
+      <DraggableRenderer
+        ref={ref}
+        draggable={perm}
+        initialState={initial}
+        onDragCancel={onDragCancel}
+      />,
+    );
+    act(() => {
+      ref.current!.startDrag("A");
+    });
+    act(() => ref.current!.cancelDrag());
+    expect(onDragCancel).toHaveBeenCalledWith(initial);
+  });
+});
+
+describe("cancelling", () => {
+  // Start dragging A over to C's spot.
+  function dragAOver(props: { onDropState?: () => void } = {}) {
+    const onDragCancel = vi.fn();
+    const r = renderPerm({ onDragCancel, ...props });
+    pointerDown(r.el("A"), 1, [25, 25]);
+    pointerMove(1, [125, 25]);
+    r.tick();
+    // (Once it's sprung over there.)
+    r.tick(1000);
+    expect(r.xOf("A")).toBe(100);
+    return { ...r, onDragCancel };
+  }
+
+  it.each([
+    ["Escape", () => fireEvent.keyDown(document, { key: "Escape" })],
+    [
+      "pointercancel",
+      () => fireEvent.pointerCancel(document, { pointerId: 1 }),
+    ],
+    ["window blur", () => fireEvent.blur(window)],
+  ])("springs back on %s", (_name, cancel) => {
+    const onDropState = vi.fn();
+    const { onDragCancel, xOf, tick } = dragAOver({ onDropState });
+    act(cancel);
+    expect(onDragCancel).toHaveBeenCalledWith(initial);
+    tick(1000);
+    expect(xOf("A")).toBe(0);
+    expect(xOf("C")).toBe(100);
+    expect(onDropState).not.toHaveBeenCalled();
+  });
+
+  it("reports a cancelled pointer whose drag hands over to another", () => {
+    const onDropState = vi.fn();
+    const { onDragCancel, el, xOf, tick } = dragAOver({ onDropState });
+    pointerDown(el("C"), 2, [125, 25]);
+    act(() => {
+      fireEvent.pointerCancel(document, { pointerId: 1 });
+    });
+    expect(onDragCancel).toHaveBeenCalledWith(initial);
+    // A springs back, rather than jumping.
+    tick(50);
+    expect(xOf("A")).toBeGreaterThan(0);
+    expect(xOf("A")).toBeLessThan(100);
+    tick(1000);
+    expect(xOf("A")).toBe(0);
+    // C's drag carries on, from the start state.
+    pointerMove(2, [75, 25]);
+    tick();
+    pointerUp(2, [75, 25]);
+    expect(onDropState).toHaveBeenCalledWith(
+      { perm: ["A", "C", "B"] },
+      expect.anything(),
+    );
+  });
+});
+
+describe("concurrent drags", () => {
+  // A (pointer 1) heads for the middle, while C (pointer 2) heads for
+  // the front.
+  function dragAAndC() {
+    const onDropState = vi.fn();
+    const onDragStart = vi.fn();
+    const onDragCancel = vi.fn();
+    const r = renderPerm({ onDropState, onDragStart, onDragCancel });
+    pointerDown(r.el("A"), 1, [25, 25]);
+    pointerMove(1, [75, 25]);
+    r.tick();
+    pointerDown(r.el("C"), 2, [125, 25]);
+    pointerMove(2, [25, 25]);
+    r.tick();
+    r.tick(1000);
+    return { ...r, onDropState, onDragStart, onDragCancel };
+  }
+
+  it("spring a cancelled second pointer's drag back", () => {
+    const { xOf, tick, onDragCancel, onDropState } = dragAAndC();
+    fireEvent.pointerCancel(document, { pointerId: 2 });
+    expect(onDragCancel).toHaveBeenCalledWith(initial);
+    tick(50);
+    expect(xOf("C")).toBeGreaterThan(0);
+    expect(xOf("C")).toBeLessThan(100);
+    // Back where A's drag puts it
+    tick(1000);
+    expect(xOf("C")).toBe(100);
+    expect(xOf("A")).toBe(50);
+    expect(onDropState).not.toHaveBeenCalled();
+  });
+
+  it("start from a second pointer", () => {
+    const { xOf, onDragStart } = dragAAndC();
+    expect(onDragStart.mock.calls).toEqual([
+      ["A", initial],
+      ["C", initial],
+    ]);
+    expect(xOf("A")).toBe(50);
+    expect(xOf("C")).toBe(0);
+  });
+
+  it("rebase the primary drag when another drops", () => {
+    const { xOf, tick, onDropState } = dragAAndC();
+    pointerUp(2, [25, 25]);
+    expect(onDropState).toHaveBeenLastCalledWith(
+      { perm: ["C", "A", "B"] },
+      expect.anything(),
+    );
+    // A's drag now starts from there, so taking it to the end leaves
+    // C in front.
+    pointerMove(1, [125, 25]);
+    tick();
+    tick(1000);
+    expect(xOf("A")).toBe(100);
+    pointerUp(1, [125, 25]);
+    expect(onDropState).toHaveBeenLastCalledWith(
+      { perm: ["C", "B", "A"] },
+      expect.anything(),
+    );
+  });
+
+  it("hand over to the other drag when the primary drops", () => {
+    const { xOf, tick, onDropState } = dragAAndC();
+    pointerUp(1, [75, 25]);
+    expect(onDropState).toHaveBeenLastCalledWith(
+      { perm: ["B", "A", "C"] },
+      expect.anything(),
+    );
+    // C's drag now starts from there, and carries on.
+    pointerMove(2, [30, 25]);
+    tick();
+    tick(1000);
+    expect(xOf("C")).toBe(0);
+    pointerUp(2, [30, 25]);
+    expect(onDropState).toHaveBeenLastCalledWith(
+      { perm: ["C", "B", "A"] },
+      expect.anything(),
+    );
+    expect(onDropState).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("two-contact gestures", () => {
+  type Bar = { x: number; y: number; s: number };
+
+  const bar: Draggable<Bar> = ({ state, d }) => (
+    <rect
+      id="bar"
+      transform={`translate(${state.x}, ${state.y}) scale(${state.s})`}
+      width={100}
+      height={20}
+      dragologyOnDrag={() =>
+        d.vary(state, [param("x"), param("y"), param("s")])
+      }
+    />
+  );
+
+  it("pinch a vary drag with a second pointer", () => {
+    const clock = manualClock();
+    const onDropState = vi.fn();
+    const onDragStart = vi.fn();
+    const { container } = render(
+      <DraggableRenderer
+        draggable={bar}
+        initialState={{ x: 0, y: 0, s: 1 }}
+        clock={clock}
+        onDropState={onDropState}
+        onDragStart={onDragStart}
+      />,
+    );
+    const tick = (ms = 16) => {
+      clock.advance(ms);
+      act(() => vi.advanceTimersToNextFrame());
+    };
+    const barEl = () => container.querySelector("#bar")!;
+    pointerDown(barEl(), 1, [0, 10]);
+    tick();
+    // Joins the drag rather than starting another.
+    pointerDown(barEl(), 2, [100, 10]);
+    expect(onDragStart).toHaveBeenCalledTimes(1);
+    for (let i = 0; i < 10; i++) {
+      pointerMove(2, [100 + 10 * (i + 1), 10]);
+      tick();
+    }
+    pointerUp(2, [200, 10]);
+    pointerUp(1, [0, 10]);
+    expect(onDropState).toHaveBeenCalledTimes(1);
+    const [dropped] = onDropState.mock.calls[0];
+    expect(dropped.s).toBeCloseTo(2, 1);
+    expect(dropped.x).toBeCloseTo(0, 0);
+    expect(dropped.y).toBeCloseTo(-10, 0);
+  });
+});
+
+describe("history", () => {
+  // Drag A to the end and let it settle.
+  function dropAAtEnd({ tick }: ReturnType<typeof handles>) {
+    pointerDown(document.querySelector("#A")!, 1, [25, 25]);
+    pointerMove(1, [125, 25]);
+    tick();
+    pointerUp(1, [125, 25]);
+    tick(1000);
+  }
+  const undoKey = { key: "z", ctrlKey: true };
+  const redoKey = { key: "Z", metaKey: true, shiftKey: true };
+
+  it("undoes and redoes drops with the keyboard", () => {
+    const r = renderPerm({ history: true });
+    dropAAtEnd(r);
+    expect(r.xOf("A")).toBe(100);
+    // The drag re-created A, so focus moved to the <svg>.
+    expect(document.activeElement).toBe(r.svg());
+
+    fireEvent.keyDown(r.svg(), undoKey);
+    r.tick(1000);
+    expect(r.xOf("A")).toBe(0);
+    fireEvent.keyDown(r.svg(), redoKey);
+    r.tick(1000);
+    expect(r.xOf("A")).toBe(100);
+  });
+
+  it("ignores the keys without the history prop", () => {
+    const r = renderPerm();
+    dropAAtEnd(r);
+    fireEvent.keyDown(r.svg(), undoKey);
+    r.tick(1000);
+    expect(r.xOf("A")).toBe(100);
+  });
+
+  it("drives a controlled renderer with useDraggableHistory", () => {
+    const clock = manualClock();
+    let history!: ReturnType<typeof useDraggableHistory<State>>;
+    function Controlled() {
+      history = useDraggableHistory(initial);
+      return (
+        <DraggableRenderer
+          draggable={perm}
+          clock={clock}
+          {...history.rendererProps}
+        />
+      );
+    }
+    const r = handles(render(<Controlled />).container, clock);
+    expect(history.canUndo).toBe(false);
+    dropAAtEnd(r);
+    expect(history.state).toEqual({ perm: ["B", "C", "A"] });
+    expect(history.canUndo).toBe(true);
+
+    act(() => history.undo());
+    r.tick(1000);
+    expect(r.xOf("A")).toBe(0);
+    expect(history.canRedo).toBe(true);
+    fireEvent.keyDown(r.svg(), redoKey);
+    r.tick(1000);
+    expect(r.xOf("A")).toBe(100);
+    expect(history.canRedo).toBe(false);
+  });
+});
+
+describe("concurrent lifecycle", () => {
+  // C (pointer 2) is held in place while A (pointer 1) chains into the
+  // middle, so the two drags now start from different states.
+  function chainAWhileHoldingC() {
+    const onDragEnd = vi.fn();
+    const r = renderPerm({ draggable: permDraggable(true), onDragEnd });
+    pointerDown(r.el("A"), 1, [25, 25]);
+    r.tick();
+    pointerDown(r.el("C"), 2, [125, 25]);
+    r.tick();
+    pointerMove(1, [75, 25]);
+    r.tick();
+    return { ...r, onDragEnd };
+  }
+
+  it("ends each cancelled drag at its own start state", () => {
+    // A reports the state it chained into, which C never saw.
+    const { onDragEnd, xOf, tick } = chainAWhileHoldingC();
+    fireEvent.keyDown(document, { key: "Escape" });
+    expect(onDragEnd.mock.calls).toEqual([
+      [{ perm: ["B", "A", "C"] }, { cancelled: true, draggedId: "A" }],
+      [initial, { cancelled: true, draggedId: "C" }],
+    ]);
+    // The diagram springs back to its state, which A's chain didn't
+    // commit to.
+    tick(1000);
+    expect(["A", "B", "C"].map((id) => xOf(id))).toEqual([0, 50, 100]);
+  });
+
+  it("ends a cancelled concurrent drag at its start state", () => {
+    const { onDragEnd } = chainAWhileHoldingC();
+    fireEvent.pointerCancel(document, { pointerId: 2 });
+    expect(onDragEnd.mock.calls).toEqual([
+      [initial, { cancelled: true, draggedId: "C" }],
+    ]);
+  });
+
+  it("ends a dropped concurrent drag at its drop state", () => {
+    const { onDragEnd } = chainAWhileHoldingC();
+    pointerMove(2, [75, 25]);
+    pointerUp(2, [75, 25]);
+    expect(onDragEnd.mock.calls).toEqual([
+      [{ perm: ["A", "C", "B"] }, { cancelled: false, draggedId: "C" }],
+    ]);
+  });
+});
+
+describe("replay", () => {
+  function renderReplay() {
+    const events: unknown[][] = [];
+    const clock = manualClock();
+    const ui = (draggable: Draggable<State>, replay?: DragRecording<State>) => (
+      <DraggableRenderer
+        draggable={draggable}
+        initialState={initial}
+        replay={replay}
+        clock={clock}
+        onDragStart={(...args) => events.push(["start", ...args])}
+        onDragEnd={(...args) => events.push(["end", ...args])}
+      />
+    );
+    const { container, rerender } = render(ui(perm));
+    return {
+      ...handles(container, clock),
+      events,
+      rerender: (...args: Parameters<typeof ui>) => rerender(ui(...args)),
+    };
+  }
+
+  it("carries on when the draggable changes mid-replay", () => {
+    const { events, tick, rerender } = renderReplay();
+    rerender(perm, recording);
+    tick();
+    // A draggable that's equivalent, but not identical
+    rerender(permDraggable(false), recording);
+    for (let i = 0; i < 10; i++) tick();
+    expect(events).toEqual([
+      ["start", "A", initial],
+      ["end", { perm: ["B", "C", "A"] }, { cancelled: false, draggedId: "A" }],
+    ]);
+  });
+
+  it("cancels a drag in progress", () => {
+    const { events, el, tick, rerender } = renderReplay();
+    pointerDown(el("B"), 1, [75, 25]);
+    pointerMove(1, [125, 25]);
+    tick();
+    rerender(perm, recording);
+    for (let i = 0; i < 10; i++) tick();
+    expect(events).toEqual([
+      ["start", "B", initial],
+      ["end", initial, { cancelled: true, draggedId: "B" }],
+      ["start", "A", initial],
+      ["end", { perm: ["B", "C", "A"] }, { cancelled: false, draggedId: "A" }],
+    ]);
+  });
+});
@@ -1,46 +1,77 @@
-import _ from "lodash";
 import React, {
   SetStateAction,
   useCallback,
   useEffect,
+  useImperativeHandle,
   useLayoutEffect,
   useMemo,
   useRef,
   useState,
 } from "react";
-import {
-  DragBehavior,
-  DragFrame,
-  DragInitContext,
-  DragResult,
-  dragSpecToBehavior,
-} from "./DragBehavior";
+import { DragFrame, DragInitContext, DragResult } from "./DragBehavior";
 import { DragSpec } from "./DragSpec";
 import { ErrorBoundary } from "./ErrorBoundary";
 import { OverlayVis } from "./OverlayVis";
+import { Clock, performanceClock } from "./clock";
+import { dragInfoFromResult, withDragInfoLayers } from "./dragInfo";
+import {
+  DragRecording,
+  recordDragFrame,
+  replayFrame,
+  startDragRecording,
+} from "./dragRecording";
+import {
+  DragInput,
+  DragSpan,
+  findDragStart,
+  initDragSpan,
+  resolveChainNows,
+} from "./dragSpan";
 import {
   Draggable,
   getOnDragCallbackOnElement,
   makeDraggableProps,
 } from "./draggable";
+import { historyKeyAction } from "./history";
+import {
+  arrowKeyDirection,
+  collectTargetPositions,
+  nextKeyboardPointer,
+} from "./keyboardDrag";
 import { Vec2, type Vec2able } from "./math/vec2";
+import {
+  PointerSample,
+  addPointerSample,
+  estimatePointerVelocity,
+} from "./pointerVelocity";
 import {
   renderDraggableInert,
   renderDraggableInertUnlayered,
 } from "./renderDraggable";
-import { Svgx, findElement, updatePropsDownTree } from "./svgx";
-import { boundsCenter, getLocalBounds } from "./svgx/bounds";
+import {
+  SpringOrigin,
+  makeSpringOrigin,
+  runSpring,
+  springExpired,
+  springSnapshot,
+} from "./spring";
+import {
+  FindElementResult,
+  Svgx,
+  findElement,
+  updatePropsDownTree,
+} from "./svgx";
+import { Bounds, boundsCenter, getLocalBounds } from "./svgx/bounds";
+import { getLayeredBounds } from "./svgx/layeredBounds";
 import { LayeredSvgx, drawLayered, layerSvg } from "./svgx/layers";
-import { lerpLayered } from "./svgx/lerp";
 import { assignPaths, findByPath, getPath } from "./svgx/path";
 import { globalToLocal, localToGlobal } from "./svgx/transform";
-import {
-  Transition,
-  TransitionLike,
-  applyEasing,
-  resolveTransitionLike,
-} from "./transition";
+import { TransitionLike } from "./transition";
 import { useAnimationLoop } from "./useAnimationLoop";
+import {
+  DraggableHistoryOptions,
+  useDraggableHistory,
+} from "./useDraggableHistory";
 import { CatchToRenderError, useCatchToRenderError } from "./useRenderError";
 import { useStateWithRef } from "./useStateWithRef";
 import { memoGeneric } from "./utils";
@@ -49,28 +80,7 @@ import { pipe } from "./utils/pipe";
 
 // # Engine state machine
 
-type SpringOrigin = {
-  layered: LayeredSvgx;
-  time: number;
-  transition: Transition;
-};
-
-function makeSpringOrigin(
-  transitionLike: TransitionLike,
-  /**
-   * We provide this lazily cuz if the transition says "no
-   * transition" then we can skip it.
-   */
-  layeredLazy: () => LayeredSvgx,
-): SpringOrigin | null {
-  const transition = resolveTransitionLike(transitionLike);
-  if (transition === false) return null;
-  return {
-    layered: layeredLazy(),
-    time: performance.now(),
-    transition,
-  };
-}
+export type { DragInputMode, DragSpan } from "./dragSpan";
 
 /**
  * Tracks a pointer-down that hasn't yet exceeded the movement
@@ -101,39 +111,89 @@ A bit of terminology about the lifetimes of drags:
   - Turn the DragSpec into a DragBehavior using dragSpecToBehavior,
     providing some DragInitContext.
 
+- Several drags can run at once, one per pointer (e.g. two fingers
+  on a touch table). The first is the "primary" drag; the rest are
+  "concurrent". Their drop states are composed sequentially: when
+  any of them drops, its drop state is committed, and the drags
+  still in progress are "rebased" – re-initialized from the newly
+  committed state, the same way a chained span is.
+
 */
 
 export type DragStatus<T extends object> = {
   springOrigin: SpringOrigin | null;
 } & (
   | { type: "idle"; state: T; pendingDrag?: PendingDrag<T> }
-  | {
+  | ({
       type: "dragging";
-      startState: T; // TODO: this is of suspect utility
-      behavior: DragBehavior<T>;
-      behaviorCtx: DragInitContext<T>;
-      result: DragResult<T>;
       /**
-       * We save the drag spec so we can generate fresh behaviors for
-       * the drop-zone visualization. It's named in a scary way to
-       * remind you that it's a niche use case.
+       * Drags by other pointers, running alongside the primary drag
+       * (whose span is spread into the status itself).
        */
-      specForDropZoneVis: DragSpec<T>;
-    }
+      concurrent: DragSpan<T>[];
+    } & DragSpan<T>)
 );
 type DragStatusDragging<T extends object> = DragStatus<T> & {
   type: "dragging";
 };
 
+/** The lifecycle callbacks, which the engine reports drags' stages to. */
+type DragLifecycle<T extends object> = Pick<
+  DraggableRendererBaseProps<T>,
+  "onDragStart" | "onBranchChange" | "onChain" | "onDragEnd"
+>;
+
 // # Component
 
 export interface DraggableRendererBaseProps<T extends object> {
   draggable: Draggable<T>;
   width?: number;
   height?: number;
-  onDropState?: (state: T) => void;
+  /**
+   * Called when a drag drops, or when the draggable calls setState,
+   * with the transition the diagram animates into the new state with.
+   */
+  onDropState?: (state: T, info: { transition: TransitionLike }) => void;
   onDragState?: (state: T) => void;
   onDragStatus?: (dragStatus: DragStatus<T>) => void;
+  /**
+   * Called when a drag is cancelled rather than dropped – by Escape,
+   * by the browser taking the pointer away (pointercancel), or by the
+   * window losing focus. The diagram springs back to the drag's start
+   * state, which is passed here; onDropState is not called.
+   */
+  onDragCancel?: (startState: T) => void;
+  /**
+   * Called when a drag starts (once the pointer has moved past
+   * `dragThreshold`, or on the first arrow press of a keyboard drag),
+   * with the dragged element's id and the state it's dragged from.
+   * This and the other lifecycle callbacks below are called for every
+   * drag, concurrent and replayed ones included, but not for
+   * `simulateDrag`'s.
+   */
+  onDragStart?: (draggedId: string | null, state: T) => void;
+  /**
+   * Called when a drag's active path changes (e.g. `d.closest` picks
+   * another option) without the drag chaining.
+   */
+  onBranchChange?: (
+    activePath: string,
+    info: { draggedId: string | null },
+  ) => void;
+  /** Called when a drag chains into a new state (see `chainNow`). */
+  onChain?: (state: T, info: { draggedId: string | null }) => void;
+  /**
+   * Called when a drag ends, with its drop state, or if it was
+   * cancelled, with the state that drag started from (or last chained
+   * into). Concurrent drags don't follow each other's chains, so one
+   * cancel can report different states for different drags; either
+   * way, the diagram springs back to its `state`. (Concurrent drags
+   * whose elements don't survive another drag's drop are cancelled.)
+   */
+  onDragEnd?: (
+    state: T,
+    info: { cancelled: boolean; draggedId: string | null },
+  ) => void;
   showDebugOverlay?: boolean;
   showVaryVisualizer?: boolean;
   /**
@@ -143,24 +203,102 @@ export interface DraggableRendererBaseProps<T extends object> {
    * Set to 0 to start drags immediately (old behavior). Default: 2.
    */
   dragThreshold?: number;
+  /**
+   * Distance (in px) the synthetic pointer moves per arrow-key press
+   * during a keyboard drag, when there's no discrete target to jump
+   * to in that direction. Holding Shift moves by 1px (and skips
+   * target-jumping) for fine adjustment. Default: 10.
+   */
+  keyboardStep?: number;
   /**
    * Simulate a drag on the element with this ID. The pointer is faked
    * at the element's center (plus optional offset). The draggable
-   * won't be interactive.
+   * won't be interactive. (To test drag behavior, use
+   * `simulateDragHeadless` instead.)
    */
   simulateDrag?: { id: string; offset?: Vec2able };
+  /**
+   * Called at the end of each drag (dropped or cancelled) with a
+   * recording of it, which can be saved as JSON and replayed. See
+   * `DragRecording`.
+   */
+  onDragRecorded?: (recording: DragRecording<T>) => void;
+  /**
+   * Replay a recorded drag, on the recording's schedule. (Start from
+   * the recording's `startState`.) While this is set, the diagram
+   * isn't interactive. Passing a new recording replays it.
+   */
+  replay?: DragRecording<T>;
+  /**
+   * Where to get the time from, for springs, pointer velocity, and
+   * anything else time-dependent. Provide a `manualClock` to step
+   * through animations deterministically. Default: `performanceClock`.
+   */
+  clock?: Clock;
+  /**
+   * How to animate when the `state` prop changes from outside (rather
+   * than by a drop or setState). Default: true (the default
+   * transition).
+   */
+  stateTransition?: TransitionLike;
+  /**
+   * Called on Ctrl/Cmd+Z while the diagram has focus (and no drag is
+   * in progress). `useDraggableHistory` provides this.
+   */
+  onUndo?: () => void;
+  /** Called on Ctrl/Cmd+Shift+Z; see `onUndo`. */
+  onRedo?: () => void;
+  ref?: React.Ref<DraggableRendererHandle<T>>;
 }
 
+/**
+ * What a DraggableRenderer's ref gives you, for driving a diagram
+ * from the UI around it (toolbars, tutorials, and the like).
+ */
+export type DraggableRendererHandle<T extends object> = {
+  /**
+   * Where the element with this id (and everything inside it) is
+   * drawn right now, springs and drag previews included, in the
+   * diagram's coordinates. Null if it isn't drawn.
+   */
+  getElementBounds(id: string): Bounds | null;
+  /**
+   * Start a keyboard drag on the element with this id, as if it had
+   * been focused and an arrow key pressed (but without moving yet).
+   * Returns false, and does nothing, if it can't be dragged right
+   * now – it isn't there, or a drag is already in progress.
+   */
+  startDrag(id: string): boolean;
+  /**
+   * Go to `state`, animating with `transition`, as if the draggable
+   * had called setState (so onDropState is called). A drag in
+   * progress is cancelled first.
+   */
+  animateTo(state: T, transition?: TransitionLike): void;
+  /** Cancel the drag in progress, if any, as Escape would. */
+  cancelDrag(): void;
+};
+
 export type DraggableRendererProps<T extends object> =
   DraggableRendererBaseProps<T> &
     (
-      | { state: T; initialState?: undefined }
-      | { state?: undefined; initialState: T }
+      | { state: T; initialState?: undefined; history?: undefined }
+      | {
+          state?: undefined;
+          initialState: T;
+          /**
+           * Keep an undo/redo history of drops and setState calls,
+           * bound to Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z. (For a
+           * controlled renderer, use `useDraggableHistory`.)
+           */
+          history?: boolean | DraggableHistoryOptions;
+        }
     );
 
 export function DraggableRenderer<T extends object>({
   state,
   initialState,
+  history,
   ...rest
 }: DraggableRendererProps<T>) {
   assert(
@@ -171,27 +309,46 @@ export function DraggableRenderer<T extends object>({
     return <DraggableRendererControlled {...rest} state={state} />;
   }
   return (
-    <DraggableRendererUncontrolled {...rest} initialState={initialState!} />
+    <DraggableRendererUncontrolled
+      {...rest}
+      initialState={initialState!}
+      history={history}
+    />
   );
 }
 
 function DraggableRendererUncontrolled<T extends object>({
   initialState,
+  history: historyOption,
   onDropState,
   ...rest
-}: DraggableRendererBaseProps<T> & { initialState: T }) {
-  const [state, setState] = useState(initialState);
+}: DraggableRendererBaseProps<T> & {
+  initialState: T;
+  history?: boolean | DraggableHistoryOptions;
+}) {
+  // Without the history option, we keep a history of zero steps.
+  const history = useDraggableHistory(
+    initialState,
+    historyOption
+      ? historyOption === true
+        ? {}
+        : historyOption
+      : { limit: 0 },
+  );
+  const { onDropState: record, onUndo, onRedo } = history.rendererProps;
   const handleStateChange = useCallback(
-    (newState: T) => {
-      setState(newState);
-      onDropState?.(newState);
+    (newState: T, info: { transition: TransitionLike }) => {
+      record(newState, info);
+      onDropState?.(newState, info);
     },
-    [onDropState],
+    [record, onDropState],
   );
   return (
     <DraggableRendererControlled
       {...rest}
-      state={state}
+      {...(historyOption ? { onUndo, onRedo } : {})}
+      state={history.state}
+      stateTransition={history.rendererProps.stateTransition}
       onDropState={handleStateChange}
     />
   );
@@ -205,10 +362,23 @@ function DraggableRendererControlled<T extends object>({
   onDropState,
   onDragState,
   onDragStatus,
+  onDragCancel,
+  onDragStart,
+  onBranchChange,
+  onChain,
+  onDragEnd,
   showDebugOverlay,
   showVaryVisualizer,
   dragThreshold = 2,
+  keyboardStep = 10,
   simulateDrag,
+  onDragRecorded,
+  replay,
+  clock = performanceClock,
+  stateTransition = true,
+  onUndo,
+  onRedo,
+  ref,
 }: DraggableRendererBaseProps<T> & { state: T }) {
   const catchToRenderError = useCatchToRenderError();
 
@@ -229,11 +399,12 @@ function DraggableRendererControlled<T extends object>({
       null,
       false,
     );
-    const currentVisual = runSpring(status.springOrigin, currentRendered);
+    const now = clock.now();
+    const current = springSnapshot(status.springOrigin, currentRendered, now);
     setStatus({
       ...status,
       state,
-      springOrigin: makeSpringOrigin(true, () => currentVisual),
+      springOrigin: makeSpringOrigin(stateTransition, now, () => current),
     });
   }
 
@@ -254,16 +425,27 @@ function DraggableRendererControlled<T extends object>({
   }, [status, onDragState]);
 
   const pointerRef = useRef<Vec2 | undefined>(undefined);
+  const trackingRef = useRef<PointerTracking>({
+    concurrent: new Map(),
+    gestures: new Map(),
+    samples: new Map(),
+  });
   const pointerOverrideRef = useRef<Vec2 | undefined>(undefined);
   const getPointer = () => pointerOverrideRef.current ?? pointerRef.current;
   const onDropStateRef = useRef(onDropState);
   onDropStateRef.current = onDropState;
   const onDragStateRef = useRef(onDragState);
   onDragStateRef.current = onDragState;
+  const onDragCancelRef = useRef(onDragCancel);
+  onDragCancelRef.current = onDragCancel;
+  const lifecycleRef = useRef<DragLifecycle<T>>({});
+  lifecycleRef.current = simulateDrag
+    ? {}
+    : { onDragStart, onBranchChange, onChain, onDragEnd };
 
   const [svgElem, setSvgElem] = useState<SVGSVGElement | null>(null);
 
-  const setPointerFromEvent = useCallback(
+  const pointerFromEvent = useCallback(
     (e: globalThis.PointerEvent) => {
       assert(!!svgElem);
       const rect = svgElem.getBoundingClientRect();
@@ -271,30 +453,126 @@ function DraggableRendererControlled<T extends object>({
         svgElem.width.baseVal.value !== 0
           ? rect.width / svgElem.width.baseVal.value
           : 1;
-      const pointer = Vec2(
+      return Vec2(
         (e.clientX - rect.left) / scale,
         (e.clientY - rect.top) / scale,
       );
+    },
+    [svgElem],
+  );
+  const setPointerFromEvent = useCallback(
+    (e: globalThis.PointerEvent) => {
+      const pointer = pointerFromEvent(e);
       pointerRef.current = pointer;
       return pointer;
     },
-    [svgElem],
+    [pointerFromEvent],
+  );
+  const setPointer = useCallback((pointer: Vec2) => {
+    pointerRef.current = pointer;
+  }, []);
+  const startDrag = useCallback(
+    (newStatus: DragStatusDragging<T>) => {
+      setStatus(newStatus);
+      lifecycleRef.current.onDragStart?.(
+        newStatus.behaviorCtx.draggedId,
+        newStatus.startState,
+      );
+    },
+    [setStatus],
   );
 
   // Animation loop: update dragging states and spring decay each frame.
   useAnimationLoop(
     catchToRenderError(() => {
+      const status = statusRef.current;
+      const now = clock.now();
+      if (replayRef.current && status.type === "dragging") {
+        advanceReplay(status, now);
+        return;
+      }
+      const pointer = getPointer();
+      const frame =
+        status.type === "dragging" && pointer
+          ? makeFrame(pointer, status, trackingRef.current, now)
+          : undefined;
+      if (status.type === "dragging") beginRecording(status, now);
       const result = advanceFrame(
-        statusRef.current,
-        getPointer(),
-        performance.now(),
+        draggable,
+        status,
+        frame,
+        trackingRef.current,
+        now,
+        lifecycleRef.current,
       );
       if (result) {
         setStatus(result);
+        if (frame && result.type === "dragging") {
+          addRecordedFrame(result, frame, result.result, now);
+        }
       }
     }),
   );
 
+  // Simulated & replayed drags aren't driven by the user.
+  const isPassive = !!simulateDrag || !!replay;
+
+  // Recording (see onDragRecorded): a recording starts on the first
+  // frame of a drag, follows the primary drag, and is handed over
+  // when the drag ends. Drags involving several pointers can't be
+  // replayed (their rebasing isn't recorded), so they're dropped.
+  const recordingRef = useRef<{
+    recording: DragRecording<T>;
+    startTime: number;
+    multiPointer: boolean;
+  } | null>(null);
+  const onDragRecordedRef = useRef(onDragRecorded);
+  onDragRecordedRef.current = isPassive ? undefined : onDragRecorded;
+  const beginRecording = useCallback(
+    (status: DragStatusDragging<T>, now: number) => {
+      const { draggedId, anchorPos } = status.behaviorCtx;
+      if (recordingRef.current || !onDragRecordedRef.current || !draggedId) {
+        return;
+      }
+      const recording = startDragRecording(
+        draggedId,
+        anchorPos,
+        status.startState,
+      );
+      recordDragFrame(recording, 0, status.startFrame, status.result);
+      recordingRef.current = { recording, startTime: now, multiPointer: false };
+    },
+    [],
+  );
+  const addRecordedFrame = useCallback(
+    (
+      status: DragStatusDragging<T>,
+      frame: DragFrame,
+      result: DragResult<T>,
+      now: number,
+    ) => {
+      const active = recordingRef.current;
+      if (!active) return;
+      if (status.concurrent.length > 0) active.multiPointer = true;
+      recordDragFrame(active.recording, now - active.startTime, frame, result);
+    },
+    [],
+  );
+  const finishRecording = useCallback(() => {
+    const active = recordingRef.current;
+    recordingRef.current = null;
+    if (active && !active.multiPointer) {
+      onDragRecordedRef.current?.(active.recording);
+    }
+  }, []);
+
+  // The replay in progress (see the replay prop).
+  const replayRef = useRef<{
+    recording: DragRecording<T>;
+    startTime: number;
+    nextFrame: number;
+  } | null>(null);
+
   // Simulated drag: initialize a drag on the target element (assumed
   // constant). THIS IS IMPLEMENTED AS A HACK FOR DEVELOPMENT --
   // maybe there should be a beefier version of it someday.
@@ -329,9 +607,15 @@ function DraggableRendererControlled<T extends object>({
             anchorPos: center,
             startState: state,
             debug: { varyVisualizer: false },
+            clock,
           };
           const frame: DragFrame = { pointer };
-          setStatus(initDrag(dragSpec, behaviorCtx, state, frame, null));
+          setStatus(
+            initDrag(dragSpec, behaviorCtx, frame, null, {
+              inputMode: "pointer",
+              pointerId: null,
+            }),
+          );
         }
       }
     }
@@ -343,16 +627,263 @@ function DraggableRendererControlled<T extends object>({
       status.type === "dragging" ? "grabbing" : "default";
   }, [status.type]);
 
+  // Ending a drag, either by dropping or by cancelling (which springs
+  // back to the start state using the drop transition, and doesn't
+  // report a drop).
+  const focusPathAfterDragRef = useRef<string | null>(null);
+  // When a concurrent drag becomes primary, its pointer becomes the
+  // primary pointer.
+  const setStatusPromotingPointer = useCallback(
+    (newStatus: DragStatus<T>) => {
+      const pointers = trackingRef.current.concurrent;
+      if (
+        newStatus.type === "dragging" &&
+        newStatus.pointerId !== null &&
+        pointers.has(newStatus.pointerId)
+      ) {
+        pointerRef.current = pointers.get(newStatus.pointerId);
+        pointers.delete(newStatus.pointerId);
+      }
+      setStatus(newStatus);
+    },
+    [setStatus],
+  );
+  const dropDrag = useCallback(
+    (
+      status: DragStatusDragging<T>,
+      pointer: Vec2,
+      replayedFrame?: DragFrame,
+    ) => {
+      const now = clock.now();
+      const frame =
+        replayedFrame ??
+        makeFrame(pointer, status, trackingRef.current, now, true);
+      const result = status.behavior(frame);
+      const dropState = result.dropState;
+      forgetSpanTracking(trackingRef.current, status);
+      beginRecording(status, now);
+      addRecordedFrame(status, frame, result, now);
+      finishRecording();
+
+      if (status.concurrent.length === 0) {
+        const newState: DragStatus<T> = {
+          type: "idle",
+          state: dropState,
+          springOrigin: makeSpringOrigin(result.dropTransition, now, () =>
+            springSnapshot(status.springOrigin, result.preview, now),
+          ),
+        };
+        setStatus(newState);
+      } else {
+        // The first concurrent drag takes over as primary.
+        setStatusPromotingPointer(
+          commitAndRebase(
+            status,
+            dropState,
+            result.dropTransition,
+            status.concurrent,
+            trackingRef.current,
+            lifecycleRef.current,
+            now,
+          ),
+        );
+      }
+      onDropStateRef.current?.(dropState, {
+        transition: result.dropTransition,
+      });
+      onDragStateRef.current?.(dropState);
+      lifecycleRef.current.onDragEnd?.(dropState, {
+        cancelled: false,
+        draggedId: status.behaviorCtx.draggedId,
+      });
+    },
+    [
+      clock,
+      setStatus,
+      setStatusPromotingPointer,
+      beginRecording,
+      addRecordedFrame,
+      finishRecording,
+    ],
+  );
+  const dropConcurrentDrag = useCallback(
+    (status: DragStatusDragging<T>, span: DragSpan<T>, pointer: Vec2) => {
+      const now = clock.now();
+      const result = span.behavior(
+        makeFrame(pointer, span, trackingRef.current, now, true),
+      );
+      const dropState = result.dropState;
+      forgetSpanTracking(trackingRef.current, span);
+      setStatusPromotingPointer(
+        commitAndRebase(
+          status,
+          dropState,
+          result.dropTransition,
+          [status, ...status.concurrent.filter((s) => s !== span)],
+          trackingRef.current,
+          lifecycleRef.current,
+          now,
+          pointerRef.current,
+        ),
+      );
+      onDropStateRef.current?.(dropState, {
+        transition: result.dropTransition,
+      });
+      onDragStateRef.current?.(dropState);
+      lifecycleRef.current.onDragEnd?.(dropState, {
+        cancelled: false,
+        draggedId: span.behaviorCtx.draggedId,
+      });
+    },
+    [clock, setStatusPromotingPointer],
+  );
+  const cancelDrag = useCallback(
+    (status: DragStatusDragging<T>) => {
+      trackingRef.current.concurrent.clear();
+      trackingRef.current.gestures.clear();
+      trackingRef.current.samples.clear();
+      finishRecording();
+      const now = clock.now();
+      const newState: DragStatus<T> = {
+        type: "idle",
+        state: status.startState,
+        springOrigin: makeSpringOrigin(status.result.dropTransition, now, () =>
+          displayedLayered(status, now),
+        ),
+      };
+      setStatus(newState);
+      // Parents tracking onDragState may have followed the drag; put
+      // them back where they started.
+      onDragStateRef.current?.(status.startState);
+      onDragCancelRef.current?.(status.startState);
+      for (const span of [status, ...status.concurrent]) {
+        lifecycleRef.current.onDragEnd?.(span.startState, {
+          cancelled: true,
+          draggedId: span.behaviorCtx.draggedId,
+        });
+      }
+    },
+    [clock, setStatus, finishRecording],
+  );
+  const clearPendingDrag = useCallback(
+    (status: DragStatus<T> & { type: "idle" }) => {
+      setStatus({
+        type: "idle",
+        state: status.state,
+        springOrigin: status.springOrigin,
+      });
+    },
+    [setStatus],
+  );
+  // Cancel whatever's in progress (for the ref handle): a drag,
+  // replayed ones included, or a pending one.
+  const cancelAny = useCallback(() => {
+    const status = statusRef.current;
+    replayRef.current = null;
+    if (status.type === "dragging") {
+      cancelDrag(status);
+    } else if (status.pendingDrag) {
+      clearPendingDrag(status);
+    }
+  }, [statusRef, cancelDrag, clearPendingDrag]);
+
+  // Replay: start a drag from the recording's first frame (cancelling
+  // whatever's in progress), then feed it the rest as their times come
+  // up. Only a new recording restarts it, so the effect reaches
+  // everything else (like `draggable` and `clock`) through a ref.
+  const startReplayRef = useRef((_replay: DragRecording<T>) => {});
+  startReplayRef.current = catchToRenderError((replay: DragRecording<T>) => {
+    cancelAny();
+    const { spec, behaviorCtx } = findDragStart(
+      draggable,
+      replay.startState,
+      replay.draggedId,
+      () => Vec2(replay.anchorPos),
+      clock,
+    );
+    const frame = replayFrame(replay.frames[0].frame);
+    pointerOverrideRef.current = frame.pointer;
+    startDrag(
+      initDrag(spec, behaviorCtx, frame, null, {
+        inputMode: "pointer",
+        pointerId: null,
+      }),
+    );
+    replayRef.current = {
+      recording: replay,
+      startTime: clock.now(),
+      nextFrame: 1,
+    };
+  });
+  useEffect(() => {
+    if (!replay || replay.frames.length === 0) return;
+    startReplayRef.current(replay);
+    return () => {
+      replayRef.current = null;
+      pointerOverrideRef.current = undefined;
+    };
+  }, [replay]);
+
+  const advanceReplay = (status: DragStatusDragging<T>, now: number) => {
+    const replaying = replayRef.current;
+    assert(!!replaying);
+    const { frames } = replaying.recording;
+    const elapsed = now - replaying.startTime;
+    let newStatus = status;
+    while (
+      replaying.nextFrame < frames.length &&
+      frames[replaying.nextFrame].time <= elapsed
+    ) {
+      const frame = replayFrame(frames[replaying.nextFrame].frame);
+      replaying.nextFrame++;
+      pointerOverrideRef.current = frame.pointer;
+      if (frame.dropping) {
+        replayRef.current = null;
+        dropDrag(newStatus, frame.pointer, frame);
+        return;
+      }
+      const advanced = advanceFrame(
+        draggable,
+        newStatus,
+        frame,
+        trackingRef.current,
+        now,
+        lifecycleRef.current,
+      );
+      assert(advanced?.type === "dragging");
+      newStatus = advanced;
+    }
+    if (replaying.nextFrame >= frames.length) {
+      // The recorded drag was cancelled.
+      replayRef.current = null;
+      cancelDrag(newStatus);
+      return;
+    }
+    setStatus(newStatus);
+  };
+
   // Document-level pointer listeners during drag or pending drag
   const shouldListenToPointer =
-    !simulateDrag &&
-    (status.type === "dragging" ||
+    !isPassive &&
+    ((status.type === "dragging" && status.inputMode === "pointer") ||
       (status.type === "idle" && !!status.pendingDrag));
   useEffect(() => {
     if (!shouldListenToPointer) return;
 
     const onPointerMove = catchToRenderError((e: globalThis.PointerEvent) => {
       const status = statusRef.current;
+      recordPointerSample(e);
+      if (!isPrimaryPointer(status, e.pointerId)) {
+        if (trackingRef.current.concurrent.has(e.pointerId)) {
+          trackingRef.current.concurrent.set(e.pointerId, pointerFromEvent(e));
+        }
+        const contact = findGestureContact(
+          trackingRef.current.gestures,
+          e.pointerId,
+        );
+        if (contact) contact.pointer2 = pointerFromEvent(e);
+        return;
+      }
       if (status.type === "idle" && status.pendingDrag) {
         // Pending: check threshold
         const { pendingDrag: pending } = status;
@@ -360,7 +891,7 @@ function DraggableRendererControlled<T extends object>({
         const d = clientPos.sub(pending.startClientPos);
         if (d.len2() > pending.threshold * pending.threshold) {
           setPointerFromEvent(e);
-          setStatus(pending.status);
+          startDrag(pending.status);
         }
       } else {
         // Dragging: track pointer
@@ -370,71 +901,449 @@ function DraggableRendererControlled<T extends object>({
 
     const onPointerUp = catchToRenderError((e: globalThis.PointerEvent) => {
       const status = statusRef.current;
+      recordPointerSample(e);
+      if (!isPrimaryPointer(status, e.pointerId)) {
+        // Lifting a second contact just ends the gesture.
+        forgetGestureContact(trackingRef.current.gestures, e.pointerId);
+        const span = findConcurrentSpan(status, e.pointerId);
+        if (span && status.type === "dragging") {
+          dropConcurrentDrag(status, span, pointerFromEvent(e));
+        }
+        return;
+      }
       if (status.type === "idle" && status.pendingDrag) {
         // Released before threshold — clear pending, stay idle.
-        const newState: DragStatus<T> = {
-          type: "idle",
-          state: status.state,
-          springOrigin: status.springOrigin,
-        };
-        setStatus(newState);
+        clearPendingDrag(status);
         return;
       }
 
       if (status.type !== "dragging") return;
-      const pointer = setPointerFromEvent(e);
-
-      const frame: DragFrame = { pointer };
-      const result = status.behavior(frame);
-      const dropState = result.dropState;
+      dropDrag(status, setPointerFromEvent(e));
+    });
 
-      const newState: DragStatus<T> = {
-        type: "idle",
-        state: dropState,
-        springOrigin: makeSpringOrigin(result.dropTransition, () =>
-          runSpring(status.springOrigin, result.preview),
-        ),
-      };
-      setStatus(newState);
-      onDropStateRef.current?.(dropState);
-      onDragStateRef.current?.(dropState);
+    // The browser took the pointer away from us (e.g. to scroll or
+    // for a system gesture). There's no meaningful drop position.
+    const onPointerCancel = catchToRenderError((e: globalThis.PointerEvent) => {
+      const status = statusRef.current;
+      if (!isPrimaryPointer(status, e.pointerId)) {
+        // Just forget about that one pointer's drag (or gesture).
+        forgetGestureContact(trackingRef.current.gestures, e.pointerId);
+        const span = findConcurrentSpan(status, e.pointerId);
+        if (span && status.type === "dragging") {
+          forgetSpanTracking(trackingRef.current, span);
+          const now = clock.now();
+          setStatus({
+            ...status,
+            concurrent: status.concurrent.filter((s) => s !== span),
+            springOrigin: makeSpringOrigin(
+              span.result.dropTransition,
+              now,
+              () => displayedLayered(status, now),
+            ),
+          });
+          onDragCancelRef.current?.(span.startState);
+          lifecycleRef.current.onDragEnd?.(span.startState, {
+            cancelled: true,
+            draggedId: span.behaviorCtx.draggedId,
+          });
+        }
+        return;
+      }
+      if (status.type === "idle" && status.pendingDrag) {
+        clearPendingDrag(status);
+      } else if (status.type === "dragging") {
+        const [next, ...rest] = status.concurrent;
+        if (next) {
+          // Nothing committed, so the next drag can just take over,
+          // while the cancelled drag's element springs back.
+          forgetSpanTracking(trackingRef.current, status);
+          finishRecording();
+          const now = clock.now();
+          setStatusPromotingPointer({
+            ...status,
+            ...next,
+            concurrent: rest,
+            springOrigin: makeSpringOrigin(
+              status.result.dropTransition,
+              now,
+              () => displayedLayered(status, now),
+            ),
+          });
+          onDragCancelRef.current?.(status.startState);
+          lifecycleRef.current.onDragEnd?.(status.startState, {
+            cancelled: true,
+            draggedId: status.behaviorCtx.draggedId,
+          });
+        } else {
+          cancelDrag(status);
+        }
+      }
     });
 
+    // Samples feed the velocity estimate; we keep them for any pointer
+    // that's dragging something.
+    const recordPointerSample = (e: globalThis.PointerEvent) => {
+      const tracking = trackingRef.current;
+      const status = statusRef.current;
+      if (
+        !(status.type === "dragging" && status.pointerId === e.pointerId) &&
+        !tracking.concurrent.has(e.pointerId)
+      )
+        return;
+      let samples = tracking.samples.get(e.pointerId);
+      if (!samples) {
+        samples = [];
+        tracking.samples.set(e.pointerId, samples);
+      }
+      addPointerSample(samples, {
+        time: clock.now(),
+        pos: pointerFromEvent(e),
+      });
+    };
+
     document.addEventListener("pointermove", onPointerMove);
     document.addEventListener("pointerup", onPointerUp);
+    document.addEventListener("pointercancel", onPointerCancel);
     return () => {
       document.removeEventListener("pointermove", onPointerMove);
       document.removeEventListener("pointerup", onPointerUp);
+      document.removeEventListener("pointercancel", onPointerCancel);
     };
   }, [
     catchToRenderError,
+    clock,
     statusRef,
     shouldListenToPointer,
     setStatus,
+    setStatusPromotingPointer,
+    startDrag,
+    pointerFromEvent,
     setPointerFromEvent,
+    dropDrag,
+    dropConcurrentDrag,
+    cancelDrag,
+    clearPendingDrag,
+    finishRecording,
+  ]);
+
+  // While dragging, additional pointers can start concurrent drags on
+  // other elements, or join a drag as its second contact. The
+  // displayed preview doesn't carry dragology handlers, so we hit-test
+  // by path against the committed state.
+  const onSvgPointerDown = catchToRenderError((e: React.PointerEvent) => {
+    const status = statusRef.current;
+    if (status.type !== "dragging" || status.inputMode !== "pointer") return;
+    if (
+      e.pointerId === status.pointerId ||
+      trackingRef.current.concurrent.has(e.pointerId) ||
+      findGestureContact(trackingRef.current.gestures, e.pointerId)
+    )
+      return;
+    const targetPath = (e.target as Element)
+      .closest("[data-path]")
+      ?.getAttribute("data-path");
+    if (!targetPath) return;
+
+    const committed = renderDraggableInertUnlayered(
+      draggable,
+      status.startState,
+      null,
+      false,
+    );
+    const found = findByPath(targetPath, committed);
+    if (!found) return;
+    const draggedEl = [found.element, ...[...found.ancestors].reverse()].find(
+      (el) => getOnDragCallbackOnElement(el),
+    );
+    if (!draggedEl) return;
+    const draggedPath = getPath(draggedEl);
+    assert(!!draggedPath, "Dragged element must have a path");
+    const pointer = pointerFromEvent(e.nativeEvent);
+
+    const alreadyDragged = [status, ...status.concurrent].find(
+      (span) => span.behaviorCtx.draggedPath === draggedPath,
+    );
+    if (alreadyDragged) {
+      // Only two contacts per drag.
+      const spanPointerId = alreadyDragged.pointerId;
+      if (
+        spanPointerId === null ||
+        trackingRef.current.gestures.has(spanPointerId)
+      )
+        return;
+      // The second anchor lives on the element as it's currently
+      // previewed, which may not be where it was at the drag's start.
+      const previewed = findByPath(
+        alreadyDragged.behaviorCtx.draggedPath,
+        renderDraggableInertUnlayered(
+          draggable,
+          alreadyDragged.result.dropState,
+          alreadyDragged.behaviorCtx.draggedId,
+          true,
+        ),
+      );
+      if (!previewed) return;
+      e.stopPropagation();
+      trackingRef.current.gestures.set(spanPointerId, {
+        pointerId: e.pointerId,
+        anchorPos2: globalToLocal(previewed.accumulatedTransform, pointer),
+        pointer2: pointer,
+      });
+      return;
+    }
+
+    e.stopPropagation();
+    const draggedFound = findByPath(draggedPath, committed);
+    assert(!!draggedFound, "Dragged element must be findable by path");
+    const behaviorCtx: DragInitContext<T> = {
+      draggable,
+      draggedPath,
+      draggedId: draggedEl.props.id ?? null,
+      anchorPos: globalToLocal(draggedFound.accumulatedTransform, pointer),
+      startState: status.startState,
+      debug: { varyVisualizer: showVaryVisualizer ?? false },
+      clock,
+    };
+    const span = initDragSpan(
+      getOnDragCallbackOnElement<T>(draggedEl)!(),
+      behaviorCtx,
+      { pointer },
+      { inputMode: "pointer", pointerId: e.pointerId },
+    );
+    trackingRef.current.concurrent.set(e.pointerId, pointer);
+    setStatus({ ...status, concurrent: [...status.concurrent, span] });
+    lifecycleRef.current.onDragStart?.(
+      span.behaviorCtx.draggedId,
+      span.startState,
+    );
+  });
+
+  // Cancellation that applies to every kind of drag: pressing Escape,
+  // or the window losing focus (which swallows the pointerup).
+  const isDragActive =
+    !isPassive &&
+    (status.type === "dragging" ||
+      (status.type === "idle" && !!status.pendingDrag));
+  useEffect(() => {
+    if (!isDragActive) return;
+
+    const cancel = catchToRenderError(() => {
+      const status = statusRef.current;
+      if (status.type === "idle" && status.pendingDrag) {
+        clearPendingDrag(status);
+      } else if (status.type === "dragging") {
+        if (status.inputMode === "keyboard") {
+          focusPathAfterDragRef.current = status.behaviorCtx.draggedPath;
+        }
+        cancelDrag(status);
+      }
+    });
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      e.preventDefault();
+      cancel();
+    };
+
+    document.addEventListener("keydown", onKeyDown);
+    window.addEventListener("blur", cancel);
+    return () => {
+      document.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("blur", cancel);
+    };
+  }, [
+    catchToRenderError,
+    statusRef,
+    isDragActive,
+    cancelDrag,
+    clearPendingDrag,
   ]);
 
+  // Document-level key listener during a keyboard drag. (The element
+  // that started the drag loses focus as soon as the drag preview
+  // replaces it, so we can't listen on the element itself.)
+  const isKeyboardDragging =
+    status.type === "dragging" && status.inputMode === "keyboard";
+  useEffect(() => {
+    if (!isKeyboardDragging) return;
+
+    const onKeyDown = catchToRenderError((e: KeyboardEvent) => {
+      const status = statusRef.current;
+      if (status.type !== "dragging") return;
+      const pointer = pointerRef.current;
+      if (!pointer) return;
+
+      const direction = arrowKeyDirection(e.key);
+      if (direction) {
+        e.preventDefault();
+        pointerRef.current = nextKeyboardPointer(
+          pointer,
+          direction,
+          collectTargetPositions(status.result.tracedSpec),
+          { step: e.shiftKey ? 1 : keyboardStep, snap: !e.shiftKey },
+        );
+      } else if (e.key === "Enter" || e.key === " ") {
+        e.preventDefault();
+        focusPathAfterDragRef.current = status.behaviorCtx.draggedPath;
+        dropDrag(status, pointer);
+      }
+    });
+
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("keydown", onKeyDown);
+    };
+  }, [
+    catchToRenderError,
+    statusRef,
+    isKeyboardDragging,
+    keyboardStep,
+    dropDrag,
+  ]);
+
+  // After a keyboard drag ends, give focus back to the dragged
+  // element so the user can keep going.
+  useEffect(() => {
+    const path = focusPathAfterDragRef.current;
+    if (status.type !== "idle" || path === null || !svgElem) return;
+    focusPathAfterDragRef.current = null;
+    const el = svgElem.querySelector(`[data-path="${CSS.escape(path)}"]`);
+    if (el instanceof SVGElement) el.focus();
+  }, [status, svgElem]);
+
+  // Undo/redo shortcuts work while focus is anywhere in the diagram.
+  // A pointer drag re-creates the element it started on, which drops
+  // focus on the floor, so afterwards we catch it with the <svg>.
+  const hasHistoryKeys = !!(onUndo || onRedo);
+  const wasDraggingRef = useRef(false);
+  useEffect(() => {
+    const wasDragging = wasDraggingRef.current;
+    wasDraggingRef.current = status.type === "dragging";
+    if (!hasHistoryKeys || !wasDragging || status.type !== "idle") return;
+    if (svgElem && document.activeElement === document.body) {
+      svgElem.focus({ preventScroll: true });
+    }
+  }, [status, svgElem, hasHistoryKeys]);
+  const onSvgKeyDown = (e: React.KeyboardEvent) => {
+    if (statusRef.current.type !== "idle") return;
+    const action = historyKeyAction(e);
+    const handler =
+      action === "undo" ? onUndo : action === "redo" ? onRedo : undefined;
+    if (!handler) return;
+    e.preventDefault();
+    handler();
+  };
+
   const renderCtx: RenderContext<T> = useMemo(
     () => ({
       draggable,
       catchToRenderError,
       setPointerFromEvent,
+      setPointer,
       setStatus,
+      startDrag,
       onDropState,
       dragThreshold,
+      keyboardStep,
       showVaryVisualizer: showVaryVisualizer ?? false,
+      clock,
     }),
     [
       catchToRenderError,
+      clock,
       draggable,
       dragThreshold,
+      keyboardStep,
       onDropState,
       setStatus,
+      startDrag,
       setPointerFromEvent,
+      setPointer,
       showVaryVisualizer,
     ],
   );
 
+  useImperativeHandle(
+    ref,
+    () => ({
+      getElementBounds(id) {
+        const status = statusRef.current;
+        const now = clock.now();
+        const committed = renderDraggableInert(
+          draggable,
+          status.type === "idle" ? status.state : status.result.dropState,
+          null,
+          false,
+        );
+        const displayed =
+          status.type === "dragging"
+            ? displayedLayered(status, now)
+            : runSpring(status.springOrigin, committed, now);
+        if (!displayed.byId.has(id)) return null;
+        const ids = [id, ...(committed.descendents?.get(id) ?? [])];
+        return getLayeredBounds({
+          byId: new Map(
+            ids.flatMap((i) => {
+              const layer = displayed.byId.get(i);
+              return layer ? [[i, layer]] : [];
+            }),
+          ),
+          descendents: null,
+        });
+      },
+      startDrag(id) {
+        const status = statusRef.current;
+        if (isPassive || status.type !== "idle") return false;
+        const found = findElement(
+          renderDraggableInertUnlayered(draggable, status.state, null, false),
+          (el) => el.props.id === id,
+        );
+        const callback = found && getOnDragCallbackOnElement<T>(found.element);
+        if (!callback) return false;
+        const draggedPath = getPath(found.element);
+        assert(!!draggedPath, "Dragged element must have a path");
+        const { status: draggingStatus, pointer } = initKeyboardDrag(
+          renderCtx,
+          status.state,
+          found,
+          draggedPath,
+          callback(),
+        );
+        setPointer(pointer);
+        startDrag(draggingStatus);
+        return true;
+      },
+      animateTo(newState, transition) {
+        cancelAny();
+        const status = statusRef.current;
+        assert(status.type === "idle");
+        setStatus(
+          idleStatusAfterSetState(
+            draggable,
+            status,
+            newState,
+            transition,
+            clock.now(),
+          ),
+        );
+        onDropStateRef.current?.(newState, {
+          transition: transition ?? true,
+        });
+      },
+      cancelDrag: cancelAny,
+    }),
+    [
+      clock,
+      draggable,
+      isPassive,
+      renderCtx,
+      setPointer,
+      setStatus,
+      startDrag,
+      statusRef,
+      cancelAny,
+    ],
+  );
+
   return (
     <svg
       ref={setSvgElem}
@@ -445,8 +1354,14 @@ function DraggableRendererControlled<T extends object>({
         overflow: "visible",
         userSelect: "none",
         touchAction: "none",
-        ...(simulateDrag ? { pointerEvents: "none" } : {}),
+        outline: "none",
+        ...(isPassive ? { pointerEvents: "none" } : {}),
       }}
+      onPointerDown={status.type === "dragging" ? onSvgPointerDown : undefined}
+      {...(hasHistoryKeys && {
+        tabIndex: -1,
+        onKeyDown: onSvgKeyDown,
+      })}
     >
       {status.type === "idle" ? (
         <DrawIdleMode status={status} ctx={renderCtx} />
@@ -455,11 +1370,12 @@ function DraggableRendererControlled<T extends object>({
           status={status}
           showDebugOverlay={showDebugOverlay}
           pointer={getPointer()}
+          now={clock.now()}
         />
       ) : (
         assertNever(status)
       )}
-      {simulateDrag && pointerOverrideRef.current && (
+      {isPassive && pointerOverrideRef.current && (
         <circle
           cx={pointerOverrideRef.current.x}
           cy={pointerOverrideRef.current.y}
@@ -477,71 +1393,298 @@ function DraggableRendererControlled<T extends object>({
 // # Helpers
 
 /**
- * Blends a target render with a spring's startLayered.
- * The target is used as the base (first arg to lerpLayered) so its
- * non-interpolatable props (like event handlers) are preserved.
- * Layers with dragologyTransition={false} are never sprung — they
- * always show the target's version so they track the cursor.
+ * What's on screen during a drag: the primary drag's (sprung)
+ * preview, with the layers its dragInfo changes drawn over it, and
+ * each concurrent drag's dragged element swapped in from that drag's
+ * own preview. (Concurrent drags on elements without ids can't be
+ * composed this way; they still drop, but their previews aren't
+ * shown.)
  */
-function runSpring(
-  springOrigin: SpringOrigin | null,
-  target: LayeredSvgx,
+function displayedLayered<T extends object>(
+  status: DragStatusDragging<T>,
+  now: number,
 ): LayeredSvgx {
-  if (!springOrigin) return target;
-  const elapsed = performance.now() - springOrigin.time;
-  const t = applyEasing(springOrigin.transition, elapsed);
-  const lerped = lerpLayered(target, springOrigin.layered, 1 - t);
-  // Replace non-transitioning layers with the target's version so they
-  // track the cursor without spring lag.
-  for (const [key, layer] of lerped.byId.entries()) {
-    if (layer.element.props["dragologyTransition"] === false) {
-      const targetVal = target.byId.get(key);
-      if (targetVal) {
-        lerped.byId.set(key, targetVal);
-      }
+  let displayed = withDragInfoLayers(
+    runSpring(status.springOrigin, status.result.preview, now),
+    status.behaviorCtx.draggable,
+    status.behaviorCtx.draggedId,
+    dragInfoFromResult(status.startState, status.result),
+  );
+  for (const span of status.concurrent) {
+    const { draggedId } = span.behaviorCtx;
+    if (draggedId === null) continue;
+    const preview = span.result.preview;
+    const ids = new Set([
+      draggedId,
+      ...(preview.descendents?.get(draggedId) ?? []),
+    ]);
+    const byId = new Map(displayed.byId);
+    for (const id of ids) {
+      byId.delete(id);
+      const layer = preview.byId.get(id);
+      if (layer) byId.set(id, layer);
+    }
+    displayed = { byId, descendents: null };
+  }
+  return displayed;
+}
+
+/**
+ * What we know about pointers, besides the primary pointer's
+ * position. All maps are keyed by pointerId.
+ */
+type PointerTracking = {
+  /** Positions of the pointers driving concurrent drags */
+  concurrent: Map<number, Vec2>;
+  /**
+   * Second contacts, keyed by the pointerId of the drag each one
+   * joined
+   */
+  gestures: Map<number, GestureContact>;
+  /** Recent positions, for velocity estimation */
+  samples: Map<number, PointerSample[]>;
+};
+
+function forgetSpanTracking(tracking: PointerTracking, span: DragInput) {
+  if (span.pointerId === null) return;
+  tracking.concurrent.delete(span.pointerId);
+  tracking.gestures.delete(span.pointerId);
+  tracking.samples.delete(span.pointerId);
+}
+
+/**
+ * A second contact on an element that's already being dragged.
+ */
+type GestureContact = {
+  pointerId: number;
+  anchorPos2: Vec2;
+  pointer2: Vec2;
+};
+
+function findGestureContact(
+  gestures: Map<number, GestureContact>,
+  pointerId: number,
+): GestureContact | undefined {
+  return [...gestures.values()].find((c) => c.pointerId === pointerId);
+}
+
+function forgetGestureContact(
+  gestures: Map<number, GestureContact>,
+  pointerId: number,
+) {
+  for (const [spanPointerId, contact] of gestures) {
+    if (contact.pointerId === pointerId) gestures.delete(spanPointerId);
+  }
+}
+
+/**
+ * Build the frame for a span, including its velocity and (if it has
+ * a second contact down) its gesture.
+ */
+function makeFrame(
+  pointer: Vec2,
+  span: DragInput,
+  tracking: PointerTracking,
+  now: number,
+  dropping?: boolean,
+): DragFrame {
+  const frame: DragFrame = { pointer };
+  if (dropping) frame.dropping = true;
+  if (span.pointerId === null) return frame;
+
+  const samples = tracking.samples.get(span.pointerId);
+  if (samples) frame.velocity = estimatePointerVelocity(samples, now);
+
+  const contact = tracking.gestures.get(span.pointerId);
+  if (!contact) return frame;
+
+  return {
+    ...frame,
+    gesture: { pointer2: contact.pointer2, anchorPos2: contact.anchorPos2 },
+  };
+}
+
+function isPrimaryPointer<T extends object>(
+  status: DragStatus<T>,
+  pointerId: number,
+): boolean {
+  const primaryPointerId =
+    status.type === "dragging"
+      ? status.pointerId
+      : status.pendingDrag
+        ? status.pendingDrag.status.pointerId
+        : null;
+  return primaryPointerId === null || primaryPointerId === pointerId;
+}
+
+function findConcurrentSpan<T extends object>(
+  status: DragStatus<T>,
+  pointerId: number,
+): DragSpan<T> | undefined {
+  if (status.type !== "dragging") return undefined;
+  return status.concurrent.find((span) => span.pointerId === pointerId);
+}
+
+/**
+ * Commit a drop state while other drags are still in progress:
+ * re-initialize each of `remaining` from the committed state (drags
+ * whose element no longer exists, or is no longer draggable, are
+ * cancelled), and make the first one primary. The display springs
+ * from what was on screen before.
+ */
+function commitAndRebase<T extends object>(
+  status: DragStatusDragging<T>,
+  committedState: T,
+  transition: TransitionLike,
+  remaining: DragSpan<T>[],
+  tracking: PointerTracking,
+  lifecycle: DragLifecycle<T>,
+  now: number,
+  primaryPointer?: Vec2,
+): DragStatus<T> {
+  const springOrigin = makeSpringOrigin(transition, now, () =>
+    displayedLayered(status, now),
+  );
+  const rebased: DragSpan<T>[] = [];
+  for (const span of remaining) {
+    const cancel = () =>
+      lifecycle.onDragEnd?.(committedState, {
+        cancelled: true,
+        draggedId: span.behaviorCtx.draggedId,
+      });
+    const pointer =
+      span === status
+        ? primaryPointer
+        : tracking.concurrent.get(span.pointerId!);
+    if (!pointer) {
+      cancel();
+      continue;
+    }
+    const found = findDragSpecInState(
+      span.behaviorCtx.draggable,
+      committedState,
+      span.behaviorCtx.draggedId,
+      span.behaviorCtx.draggedPath,
+    );
+    if (!found) {
+      forgetSpanTracking(tracking, span);
+      cancel();
+      continue;
     }
+    rebased.push(
+      initDragSpan(
+        found.spec,
+        {
+          ...span.behaviorCtx,
+          draggedPath: found.draggedPath,
+          startState: committedState,
+        },
+        makeFrame(pointer, span, tracking, now),
+        span,
+      ),
+    );
+  }
+
+  const [primary, ...concurrent] = rebased;
+  if (!primary) {
+    return { type: "idle", state: committedState, springOrigin };
   }
-  return lerped;
+  return { type: "dragging", ...primary, concurrent, springOrigin };
 }
 
+/**
+ * Find the element being dragged (by id if it has one, else by
+ * path) in a freshly rendered state, and evaluate its dragology.
+ */
+function findDragSpecInState<T extends object>(
+  draggable: Draggable<T>,
+  state: T,
+  draggedId: string | null,
+  draggedPath: string,
+): { spec: DragSpec<T>; draggedPath: string } | null {
+  const content = renderDraggableInertUnlayered(
+    draggable,
+    state,
+    draggedId,
+    true,
+  );
+  const found = draggedId
+    ? findElement(content, (el) => el.props.id === draggedId)
+    : findByPath(draggedPath, content);
+  if (!found) return null;
+  const callback = getOnDragCallbackOnElement<T>(found.element);
+  if (!callback) return null;
+  const newDraggedPath = getPath(found.element);
+  assert(!!newDraggedPath, "Dragged element must have a path");
+  return { spec: callback(), draggedPath: newDraggedPath };
+}
+
+/**
+ * Move the engine forward a frame. `frame` is the primary drag's
+ * frame (if we're dragging). Chains and branch changes are reported
+ * to `lifecycle`.
+ */
 function advanceFrame<T extends object>(
+  draggable: Draggable<T>,
   status: DragStatus<T>,
-  pointer: Vec2 | undefined,
+  frame: DragFrame | undefined,
+  tracking: PointerTracking,
   now: number,
+  lifecycle: DragLifecycle<T>,
 ): DragStatus<T> | null {
   if (status.type === "dragging") {
-    if (!pointer) return null;
-    const frame: DragFrame = { pointer };
+    if (!frame) return null;
     const result = status.behavior(frame);
 
+    const concurrent = status.concurrent.map((span) => {
+      const spanPointer = tracking.concurrent.get(span.pointerId!);
+      if (!spanPointer) return span;
+      const spanFrame = makeFrame(spanPointer, span, tracking, now);
+      const spanResult = span.behavior(spanFrame);
+      const spanChained = resolveChainNows(span, spanFrame, spanResult);
+      reportSpanChanges(span, spanResult, spanChained, lifecycle);
+      return spanChained ?? { ...span, result: spanResult };
+    });
+
     // Handle chaining: restart drag from new state
     const chained = resolveChainNows(status, frame, result);
-    if (chained !== status) return chained;
+    reportSpanChanges(status, result, chained, lifecycle);
+    if (chained) {
+      // We construct a spring origin to emulate what was rendered
+      // here before. That means: no references to the new `result`!
+      const springOrigin = makeSpringOrigin(
+        result.chainNow!.transition,
+        now,
+        () => springSnapshot(status.springOrigin, status.result.preview, now),
+      );
+      return { ...status, ...chained, concurrent, springOrigin };
+    }
 
     let springOrigin = status.springOrigin;
 
     // Detect activePath change → start new spring from current display
     if (result.activePath !== status.result.activePath) {
-      springOrigin = makeSpringOrigin(result.activePathTransition, () =>
-        runSpring(springOrigin, status.result.preview),
+      springOrigin = makeSpringOrigin(result.activePathTransition, now, () =>
+        springSnapshot(springOrigin, status.result.preview, now),
       );
     }
 
     // Clear expired spring
     if (
       springOrigin &&
-      now - springOrigin.time >= springOrigin.transition?.duration!
+      springExpired(springOrigin, now, () => result.preview)
     ) {
       springOrigin = null;
     }
 
-    return { ...status, result, springOrigin };
+    return { ...status, result, concurrent, springOrigin };
   }
 
   if (status.type === "idle" && status.springOrigin) {
     if (
-      now - status.springOrigin.time >=
-      status.springOrigin.transition.duration
+      springExpired(status.springOrigin, now, () =>
+        renderDraggableInert(draggable, status.state, null, false),
+      )
     ) {
       return { ...status, springOrigin: null };
     }
@@ -553,100 +1696,71 @@ function advanceFrame<T extends object>(
 }
 
 /**
- * If a drag result has chainNow set (e.g. from switchToStateAndFollow),
- * process it immediately: find the new element, set up a new drag from it,
- * and return the new drag state. Returns the original status if no chaining needed.
+ * Tell `lifecycle` whether a span's latest result chained it (into
+ * `chained`), or otherwise changed its active path.
  */
-function resolveChainNows<T extends object>(
-  status: DragStatusDragging<T>,
-  frame: DragFrame,
+function reportSpanChanges<T extends object>(
+  span: DragSpan<T>,
   result: DragResult<T>,
-): DragStatusDragging<T> {
-  if (!result.chainNow || _.isEqual(result.dropState, status.startState))
-    return status;
-
-  const newState = result.dropState;
-  const newDraggedId =
-    result.chainNow.draggedId ?? status.behaviorCtx.draggedId;
-  const content = renderDraggableInertUnlayered(
-    status.behaviorCtx.draggable,
-    newState,
-    newDraggedId,
-    true,
-  );
-  const found = newDraggedId
-    ? findElement(content, (el) => el.props.id === newDraggedId)
-    : findByPath(status.behaviorCtx.draggedPath, content);
-
-  assert(
-    !!found,
-    `Chained drag must have a valid dragged element; couldn't find element with id ${newDraggedId}`,
-  );
-
-  const newDragSpec =
-    result.chainNow.followSpec ??
-    getOnDragCallbackOnElement<T>(found.element)?.();
-  if (!newDragSpec) return status;
-
-  // We construct a spring origin to emulate what was rendered here
-  // before. That means: no references to the new `result`!
-  const chainTransition = result.chainNow.transition;
-  const newSpringOrigin = makeSpringOrigin(chainTransition, () =>
-    runSpring(status.springOrigin, status.result.preview),
-  );
-
-  const newDraggedPath = getPath(found.element);
-  assert(!!newDraggedPath, "Chained element must have a path");
-
-  const anchorPos = status.behaviorCtx.anchorPos;
-
-  return initDrag(
-    newDragSpec,
-    {
-      ...status.behaviorCtx,
-      draggedPath: newDraggedPath,
-      draggedId: newDraggedId,
-      anchorPos,
-      startState: newState,
-    },
-    newState,
-    frame,
-    newSpringOrigin,
-  );
+  chained: DragSpan<T> | null,
+  lifecycle: DragLifecycle<T>,
+) {
+  if (chained) {
+    lifecycle.onChain?.(chained.startState, {
+      draggedId: chained.behaviorCtx.draggedId,
+    });
+  } else if (result.activePath !== span.result.activePath) {
+    lifecycle.onBranchChange?.(result.activePath, {
+      draggedId: span.behaviorCtx.draggedId,
+    });
+  }
 }
 
 function initDrag<T extends object>(
   spec: DragSpec<T>,
   behaviorCtx: DragInitContext<T>,
-  state: T,
   frame: DragFrame,
   springOrigin: SpringOrigin | null,
+  input: DragInput,
 ): DragStatusDragging<T> {
-  const behavior = dragSpecToBehavior(spec, behaviorCtx);
-  const result = behavior(frame);
-
-  const status: DragStatusDragging<T> = {
+  return {
     type: "dragging",
-    startState: state,
-    behavior,
-    specForDropZoneVis: spec,
-    behaviorCtx,
-    result,
+    ...initDragSpan(spec, behaviorCtx, frame, input),
+    concurrent: [],
     springOrigin,
   };
+}
 
-  // This code used to check for chaining, via:
-  //
-  // return resolveChainNows(status, frame, result);
-  //
-  // That was (maybe?) important because `switchToStateAndFollow`
-  // used chaining, and we wanted the switch to occur without delay.
-  // But now switchToStateAndFollow does its own thing. And we want
-  // to support "chain on every frame" for things like
-  // chain-of-links, which suggests that you only chain once per
-  // frame. So:
-
-  return status;
+/**
+ * Start a keyboard drag on `found` (in the render of `state`). The
+ * synthetic pointer starts at the element's center.
+ */
+function initKeyboardDrag<T extends object>(
+  ctx: RenderContext<T>,
+  state: T,
+  found: FindElementResult,
+  draggedPath: string,
+  spec: DragSpec<T>,
+): { status: DragStatusDragging<T>; pointer: Vec2 } {
+  const localBounds = getLocalBounds(found.element);
+  const anchorPos = localBounds.empty ? Vec2(0) : boundsCenter(localBounds);
+  const pointer = localToGlobal(found.accumulatedTransform, anchorPos);
+  const behaviorCtx: DragInitContext<T> = {
+    draggable: ctx.draggable,
+    draggedPath,
+    draggedId: found.element.props.id ?? null,
+    anchorPos,
+    startState: state,
+    debug: {
+      varyVisualizer: ctx.showVaryVisualizer,
+    },
+    clock: ctx.clock,
+  };
+  const status = initDrag(spec, behaviorCtx, { pointer }, null, {
+    inputMode: "keyboard",
+    pointerId: null,
+  });
+  return { status, pointer };
 }
 
 // # Render context
@@ -655,10 +1769,14 @@ type RenderContext<T extends object> = {
   draggable: Draggable<T>;
   catchToRenderError: CatchToRenderError;
   setPointerFromEvent: (e: globalThis.PointerEvent) => Vec2;
+  setPointer: (pointer: Vec2) => void;
   setStatus: (ds: DragStatus<T>) => void;
-  onDropState?: (state: T) => void;
+  startDrag: (ds: DragStatusDragging<T>) => void;
+  onDropState?: (state: T, info: { transition: TransitionLike }) => void;
   dragThreshold: number;
+  keyboardStep: number;
   showVaryVisualizer: boolean;
+  clock: Clock;
 };
 
 /**
@@ -692,9 +1810,46 @@ function postProcessForInteraction<T extends object>(
           !el.props.onPointerDown,
           "Elements with dragology cannot have onPointerDown (it is overwritten)",
         );
+        assert(
+          !el.props.onKeyDown,
+          "Elements with dragology cannot have onKeyDown (it is overwritten)",
+        );
         return {
           // put cursor first, so it's overriden by author-defined cursor
           style: { cursor: "grab", ...(el.props.style || {}) },
+          // Draggable elements are focusable, so they can be dragged
+          // with the keyboard.
+          tabIndex: el.props.tabIndex ?? 0,
+          "aria-roledescription": "draggable",
+          onKeyDown: ctx.catchToRenderError((e: React.KeyboardEvent) => {
+            const direction = arrowKeyDirection(e.key);
+            if (!direction || e.ctrlKey || e.metaKey || e.altKey) return;
+            e.preventDefault();
+            e.stopPropagation();
+
+            const draggedPath = getPath(el);
+            assert(!!draggedPath, "Dragged element must have a path");
+            const found = findByPath(draggedPath, withPaths);
+            assert(!!found, "Dragged element must be findable by path");
+            const { status: draggingStatus, pointer } = initKeyboardDrag(
+              ctx,
+              state,
+              found,
+              draggedPath,
+              onDragCallback(),
+            );
+
+            // The first arrow press both starts the drag and moves.
+            ctx.setPointer(
+              nextKeyboardPointer(
+                pointer,
+                direction,
+                collectTargetPositions(draggingStatus.result.tracedSpec),
+                { step: e.shiftKey ? 1 : ctx.keyboardStep, snap: !e.shiftKey },
+              ),
+            );
+            ctx.startDrag(draggingStatus);
+          }),
           onPointerDown: ctx.catchToRenderError((e: React.PointerEvent) => {
             e.stopPropagation();
             const pointer = ctx.setPointerFromEvent(e.nativeEvent);
@@ -722,15 +1877,19 @@ function postProcessForInteraction<T extends object>(
               debug: {
                 varyVisualizer: ctx.showVaryVisualizer,
               },
+              clock: ctx.clock,
             };
 
             const frame: DragFrame = { pointer };
             const draggingStatus = initDrag(
               dragSpec,
               behaviorCtx,
-              state,
               frame,
               null,
+              {
+                inputMode: "pointer",
+                pointerId: e.pointerId,
+              },
             );
 
             const hasClickHandler = ancestorOrSelfHasClickHandler(
@@ -739,7 +1898,7 @@ function postProcessForInteraction<T extends object>(
             );
 
             if (ctx.dragThreshold <= 0 || !hasClickHandler) {
-              ctx.setStatus(draggingStatus);
+              ctx.startDrag(draggingStatus);
             } else {
               // Stay idle with pending — DOM is preserved, clicks still work.
               ctx.setStatus({
@@ -760,6 +1919,30 @@ function postProcessForInteraction<T extends object>(
   );
 }
 
+/**
+ * Where setState (from the draggable, or `animateTo`) takes an idle
+ * status: to `newState`, springing from what was on screen.
+ */
+function idleStatusAfterSetState<T extends object>(
+  draggable: Draggable<T>,
+  status: DragStatus<T> & { type: "idle" },
+  newState: T,
+  transition: TransitionLike | undefined,
+  now: number,
+): DragStatus<T> {
+  return {
+    type: "idle",
+    state: newState,
+    springOrigin: makeSpringOrigin(transition, now, () =>
+      springSnapshot(
+        status.springOrigin,
+        renderDraggableInert(draggable, status.state, null, false),
+        now,
+      ),
+    ),
+  };
+}
+
 // # Render modes
 
 const DrawIdleMode = memoGeneric(
@@ -783,15 +1966,16 @@ const DrawIdleMode = memoGeneric(
               typeof newState === "function"
                 ? (newState as (prev: T) => T)(status.state)
                 : newState;
-            const newStatus: DragStatus<T> = {
-              type: "idle",
-              state: resolved,
-              springOrigin: makeSpringOrigin(transition, () =>
-                renderDraggableInert(ctx.draggable, status.state, null, false),
+            ctx.setStatus(
+              idleStatusAfterSetState(
+                ctx.draggable,
+                status,
+                resolved,
+                transition,
+                ctx.clock.now(),
               ),
-            };
-            ctx.setStatus(newStatus);
-            ctx.onDropState?.(resolved);
+            );
+            ctx.onDropState?.(resolved, { transition: transition ?? true });
           },
         ),
         isTracking: false,
@@ -799,7 +1983,9 @@ const DrawIdleMode = memoGeneric(
     );
 
     const layered = postProcessForInteraction(content, status.state, ctx);
-    return drawLayered(runSpring(status.springOrigin, layered));
+    return drawLayered(
+      runSpring(status.springOrigin, layered, ctx.clock.now()),
+    );
   },
 );
 
@@ -808,15 +1994,16 @@ const DrawDraggingMode = memoGeneric(
     status,
     showDebugOverlay,
     pointer,
+    now,
   }: {
     status: DragStatusDragging<T>;
     showDebugOverlay?: boolean;
     pointer?: Vec2;
+    now: number;
   }) => {
-    const rendered = runSpring(status.springOrigin, status.result.preview);
     return (
       <>
-        {drawLayered(rendered)}
+        {drawLayered(displayedLayered(status, now))}
         {showDebugOverlay && pointer && (
           <ErrorBoundary>
             <OverlayVis spec={status.result.tracedSpec} pointer={pointer} />
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { param } from "./DragSpec";
+import { displayFramesToAnimatedSvg, renderAnimatedSvg } from "./animatedSvg";
+import { Draggable } from "./draggable";
+import { recordDragHeadless } from "./headless";
+import { rotateDeg, translate } from "./svgx/helpers";
+import { layerSvg } from "./svgx/layers";
+
+type State = { x: number };
+
+const draggable: Draggable<State> = ({ state, d }) => (
+  <g>
+    <rect x={0} y={0} width={100} height={20} fill="#eee" />
+    <circle
+      id="knob"
+      transform={translate(state.x, 10)}
+      r={10}
+      fill="black"
+      dragologyOnDrag={() => d.vary(state, param("x"))}
+    />
+  </g>
+);
+
+const recording = recordDragHeadless(draggable, { x: 0 }, "knob", [
+  "center",
+  [30, 10],
+  [60, 10],
+]);
+
+describe("renderAnimatedSvg", () => {
+  it("animates the layers that move", () => {
+    const svg = renderAnimatedSvg(draggable, recording);
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+    expect(svg).toMatch(
+      /<circle [^>]*><animateTransform attributeName="transform" type="translate" values="0[.\d]*,10;[^"]*;60[.\d]*,10"/,
+    );
+    expect(svg).toContain('repeatCount="indefinite"');
+    // The background doesn't move, so it isn't animated.
+    expect(svg).toMatch(/<rect [^>]*><\/rect>/);
+  });
+
+  it("leaves out dragology's props", () => {
+    const svg = renderAnimatedSvg(draggable, recording);
+    expect(svg).not.toMatch(/dragology/i);
+    expect(svg).not.toContain("data-path");
+  });
+
+  it("holds the last frame, and can play once", () => {
+    const svg = renderAnimatedSvg(draggable, recording, {
+      fps: 10,
+      hold: 500,
+      loop: false,
+    });
+    // The drop (at 32ms) settles after its 200ms transition, then
+    // the last frame is held.
+    expect(svg).toContain('dur="732ms"');
+    expect(svg).toContain('fill="freeze"');
+    expect(svg).not.toContain("repeatCount");
+  });
+});
+
+describe("displayFramesToAnimatedSvg", () => {
+  it("decomposes transforms", () => {
+    const svg = displayFramesToAnimatedSvg(
+      [0, 90].map((deg, i) => ({
+        time: i * 100,
+        layered: layerSvg(
+          <g>
+            <rect id="r" transform={rotateDeg(deg, [10, 0])} width={5} />
+          </g>,
+        ),
+      })),
+      { hold: 0 },
+    );
+    expect(svg).toContain(
+      '<animateTransform attributeName="transform" type="translate" values="0,0;10,-10"',
+    );
+    expect(svg).toContain(
+      '<animateTransform attributeName="transform" type="rotate" values="0;90" additive="sum"',
+    );
+    expect(svg).not.toContain('type="scale"');
+  });
+
+  it("animates other attributes by their SVG names", () => {
+    const svg = displayFramesToAnimatedSvg(
+      [1, 3].map((w, i) => ({
+        time: i * 100,
+        layered: layerSvg(<line id="l" x2={10} strokeWidth={w} />),
+      })),
+      { hold: 0 },
+    );
+    expect(svg).toContain('<animate attributeName="stroke-width" values="1;3"');
+  });
+
+  it("falls back to a flipbook when elements change", () => {
+    const svg = displayFramesToAnimatedSvg(
+      ["one", "two", "two"].map((label, i) => ({
+        time: i * 100,
+        layered: layerSvg(
+          <text id="t" x={0} y={10}>
+            {label}
+          </text>,
+        ),
+      })),
+      { hold: 0 },
+    );
+    expect(svg.match(/<text/g)).toHaveLength(2);
+    expect(svg).toContain('values="inline;none;none" calcMode="discrete"');
+    expect(svg).toContain('values="none;inline;inline" calcMode="discrete"');
+  });
+
+  it("hides layers while they're missing", () => {
+    const svg = displayFramesToAnimatedSvg(
+      [true, false].map((shown, i) => ({
+        time: i * 100,
+        layered: layerSvg(
+          <g>
+            <rect id="a" width={5} height={5} />
+            {shown && <rect id="b" x={10} width={5} height={5} />}
+          </g>,
+        ),
+      })),
+      { hold: 0 },
+    );
+    expect(svg).toContain(
+      '<animate attributeName="display" values="inline;none" calcMode="discrete"',
+    );
+  });
+});
@@ -0,0 +1,340 @@
+import _ from "lodash";
+import React, { Fragment, cloneElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { DragRecording } from "./dragRecording";
+import { Draggable } from "./draggable";
+import { DisplayFrame, sampleDragHeadless } from "./headless";
+import { Vec2 } from "./math/vec2";
+import {
+  StaticSvgOptions,
+  layeredToStaticSvg,
+  stripForSvgFile,
+  svgDocument,
+} from "./staticSvg";
+import { Svgx, isValidSvgx, shouldRecurseIntoChildren } from "./svgx";
+import { unionBounds } from "./svgx/bounds";
+import { getLayeredBounds } from "./svgx/layeredBounds";
+import { compareStackingPaths } from "./svgx/layers";
+import { localToGlobal } from "./svgx/transform";
+import { assert } from "./utils/assert";
+
+/**
+ * Animated SVG export: play back a drag (and the spring into its drop
+ * state) as a single standalone SVG, animated with SMIL, e.g. for
+ * docs or a README.
+ *
+ * Frames are matched up by layer id, like `lerpLayered` does. A layer
+ * that keeps the same shape the whole time (same elements, same text)
+ * becomes one element with `<animate>`s for the attributes that
+ * change; transforms are animated as translate, rotate, skewX and
+ * scale `<animateTransform>`s. Any other layer falls back to a
+ * flipbook of its distinct renders.
+ */
+
+export type AnimatedSvgOptions = StaticSvgOptions & {
+  /** Samples per second. Default: 30. */
+  fps?: number;
+  /** Whether the animation repeats forever. Default: true. */
+  loop?: boolean;
+  /** How long (in ms) to show the last frame before it ends. Default: 1000. */
+  hold?: number;
+};
+
+/**
+ * Render a recorded drag as an animated SVG. (To animate a scripted
+ * drag, make a recording of it with `recordDragHeadless`.)
+ */
+export function renderAnimatedSvg<T extends object>(
+  draggable: Draggable<T>,
+  recording: DragRecording<T>,
+  options: AnimatedSvgOptions = {},
+): string {
+  return displayFramesToAnimatedSvg(
+    sampleDragHeadless(draggable, recording, { fps: options.fps }),
+    options,
+  );
+}
+
+/**
+ * Like `renderAnimatedSvg`, for frames that have already been
+ * rendered (see `sampleDragHeadless`).
+ */
+export function displayFramesToAnimatedSvg(
+  frames: DisplayFrame[],
+  { loop = true, hold = 1000, ...options }: AnimatedSvgOptions = {},
+): string {
+  assert(frames.length > 0, "Can't animate zero frames");
+  const last = frames[frames.length - 1];
+  if (hold > 0) frames = [...frames, { ...last, time: last.time + hold }];
+  const start = frames[0].time;
+  const duration = frames[frames.length - 1].time - start;
+  if (duration <= 0) return layeredToStaticSvg(frames[0].layered, options);
+
+  const timing: Timing = {
+    dur: `${formatNumber(duration)}ms`,
+    keyTimes: frames
+      .map((f) => formatNumber((f.time - start) / duration, 6))
+      .join(";"),
+    ...(loop ? { repeatCount: "indefinite" } : { fill: "freeze" }),
+  };
+
+  // Layers are drawn in the order they're first seen in.
+  const firstSeen = new Map<string, number[]>();
+  for (const { layered } of frames) {
+    for (const [id, layer] of layered.byId) {
+      if (!firstSeen.has(id)) firstSeen.set(id, layer.stackingPath);
+    }
+  }
+  const ids = [...firstSeen.keys()].sort((a, b) =>
+    compareStackingPaths(firstSeen.get(a)!, firstSeen.get(b)!),
+  );
+
+  const content = (
+    <>
+      {ids.map((id) => (
+        <Fragment key={id}>
+          {animateLayer(
+            frames.map((f) => {
+              const layer = f.layered.byId.get(id);
+              return layer && stripForSvgFile(layer.element);
+            }),
+            timing,
+          )}
+        </Fragment>
+      ))}
+    </>
+  );
+  const bounds = frames
+    .map((f) => getLayeredBounds(f.layered))
+    .reduce(unionBounds);
+  return svgDocument(content, bounds, options);
+}
+
+/** The SMIL timing attributes shared by every animation. */
+type Timing = {
+  dur: string;
+  keyTimes: string;
+  repeatCount?: string;
+  fill?: string;
+};
+
+/**
+ * A layer, animated through its renders in each frame (`undefined`
+ * where it isn't drawn).
+ */
+function animateLayer(samples: (Svgx | undefined)[], timing: Timing): Svgx {
+  const base = samples.find((s) => s !== undefined)!;
+  const display = samples.some((s) => s === undefined) && (
+    <animate
+      attributeName="display"
+      values={samples.map((s) => (s ? "inline" : "none")).join(";")}
+      calcMode="discrete"
+      {...timing}
+    />
+  );
+  return (
+    animateTree(
+      samples.map((s) => s ?? base),
+      display ? [display] : [],
+      timing,
+    ) ?? flipbook(samples, timing)
+  );
+}
+
+/**
+ * One element with animations for everything that changes across
+ * `samples`, or null if the samples can't be animated into each
+ * other (they have different elements or text, say).
+ */
+function animateTree(
+  samples: Svgx[],
+  animations: Svgx[],
+  timing: Timing,
+): Svgx | null {
+  const [base] = samples;
+  if (samples.some((s) => s.type !== base.type)) return null;
+
+  const props = _.uniq(samples.flatMap((s) => Object.keys(s.props)));
+  for (const prop of props) {
+    if (prop === "children") continue;
+    const values = samples.map((s) => (s.props as any)[prop]);
+    if (values.every((v) => _.isEqual(v, values[0]))) continue;
+    if (prop === "transform") {
+      animations = [...animations, ...animateTransform(values, timing)];
+      continue;
+    }
+    if (!values.every((v) => typeof v === "string" || typeof v === "number")) {
+      return null;
+    }
+    const strings = values.map((v) =>
+      typeof v === "number" ? formatNumber(v) : v,
+    );
+    if (strings.some((v) => v.includes(";"))) return null;
+    animations = [
+      ...animations,
+      <animate
+        attributeName={svgAttributeName(prop)}
+        values={strings.join(";")}
+        {...timing}
+      />,
+    ];
+  }
+
+  const childLists = samples.map((s) =>
+    React.Children.toArray(s.props.children),
+  );
+  const children = childLists[0];
+  if (childLists.some((c) => c.length !== children.length)) return null;
+  const animatedChildren: React.ReactNode[] = [];
+  for (let i = 0; i < children.length; i++) {
+    const child = children[i];
+    if (!isValidSvgx(child) || !shouldRecurseIntoChildren(base)) {
+      if (childLists.some((c) => !sameNode(c[i], child))) return null;
+      animatedChildren.push(child);
+      continue;
+    }
+    const childSamples = childLists.map((c) => c[i]);
+    if (!childSamples.every(isValidSvgx)) return null;
+    const animated = animateTree(childSamples, [], timing);
+    if (!animated) return null;
+    animatedChildren.push(animated);
+  }
+
+  return cloneElement(base, undefined, ...animatedChildren, ...animations);
+}
+
+/**
+ * Animations for a transform attribute. Each sample's transform is
+ * decomposed into translate, rotate, skewX and scale, which are
+ * animated separately and then composed (with `additive="sum"`).
+ */
+function animateTransform(
+  values: (string | undefined)[],
+  timing: Timing,
+): Svgx[] {
+  const parts = values.map(decomposeTransform);
+  // Unwrap angles, so that going from 179° to -179° doesn't spin the
+  // long way around.
+  for (let i = 1; i < parts.length; i++) {
+    const turns = Math.round((parts[i].rotate - parts[i - 1].rotate) / 360);
+    parts[i].rotate -= turns * 360;
+  }
+  const components = [
+    {
+      type: "translate",
+      values: parts.map((p) => `${formatNumber(p.tx)},${formatNumber(p.ty)}`),
+      identity: "0,0",
+    },
+    {
+      type: "rotate",
+      values: parts.map((p) => formatNumber(p.rotate)),
+      identity: "0",
+    },
+    {
+      type: "skewX",
+      values: parts.map((p) => formatNumber(p.skewX)),
+      identity: "0",
+    },
+    {
+      type: "scale",
+      values: parts.map((p) => `${formatNumber(p.sx)},${formatNumber(p.sy)}`),
+      identity: "1,1",
+    },
+  ].filter((c) => c.values.some((v) => v !== c.identity));
+  return components.map((c, i) => (
+    <animateTransform
+      attributeName="transform"
+      type={c.type}
+      values={c.values.join(";")}
+      // The first one replaces the element's own transform; the rest
+      // are composed onto it.
+      additive={i === 0 ? "replace" : "sum"}
+      {...timing}
+    />
+  ));
+}
+
+/**
+ * Write a transform as translate · rotate · skewX · scale.
+ */
+function decomposeTransform(transform: string | undefined) {
+  const origin = localToGlobal(transform, Vec2(0));
+  const [a, b] = localToGlobal(transform, Vec2(1, 0)).sub(origin).arr();
+  const [c, d] = localToGlobal(transform, Vec2(0, 1)).sub(origin).arr();
+  const rotation = Math.atan2(b, a);
+  const sx = Math.hypot(a, b);
+  // What's left after undoing the rotation is [sx, shear; 0, sy].
+  const shear = Math.cos(rotation) * c + Math.sin(rotation) * d;
+  const sy = -Math.sin(rotation) * c + Math.cos(rotation) * d;
+  return {
+    tx: origin.x,
+    ty: origin.y,
+    rotate: (rotation * 180) / Math.PI,
+    skewX: sy === 0 ? 0 : (Math.atan(shear / sy) * 180) / Math.PI,
+    sx,
+    sy,
+  };
+}
+
+/**
+ * A layer that can't be animated attribute-by-attribute: each
+ * distinct render is drawn, and shown only while it's current.
+ */
+function flipbook(samples: (Svgx | undefined)[], timing: Timing): Svgx {
+  const markups = samples.map((s) => s && renderToStaticMarkup(s));
+  const runs: { start: number; end: number }[] = [];
+  markups.forEach((markup, i) => {
+    if (markup === undefined) return;
+    const run = runs[runs.length - 1];
+    if (run && run.end === i && markups[run.start] === markup) {
+      run.end = i + 1;
+    } else {
+      runs.push({ start: i, end: i + 1 });
+    }
+  });
+  return (
+    <>
+      {runs.map(({ start, end }) => (
+        <g key={start} display={start === 0 ? "inline" : "none"}>
+          {samples[start]}
+          <animate
+            attributeName="display"
+            values={samples
+              .map((_, i) => (i >= start && i < end ? "inline" : "none"))
+              .join(";")}
+            calcMode="discrete"
+            {...timing}
+          />
+        </g>
+      ))}
+    </>
+  );
+}
+
+const attributeNames = new Map<string, string>();
+
+/**
+ * The SVG attribute a React prop is written as (`strokeWidth` →
+ * `stroke-width`, but `viewBox` → `viewBox`). We let React tell us.
+ */
+function svgAttributeName(prop: string): string {
+  let name = attributeNames.get(prop);
+  if (name === undefined) {
+    const markup = renderToStaticMarkup(<g {...{ [prop]: "0" }} />);
+    name = /^<g ([^=]+)=/.exec(markup)?.[1] ?? prop;
+    attributeNames.set(prop, name);
+  }
+  return name;
+}
+
+function sameNode(a: React.ReactNode, b: React.ReactNode): boolean {
+  if (isValidSvgx(a) && isValidSvgx(b)) {
+    return renderToStaticMarkup(a) === renderToStaticMarkup(b);
+  }
+  return a === b;
+}
+
+function formatNumber(n: number, digits = 3): string {
+  const scale = 10 ** digits;
+  return String(Math.round(n * scale) / scale);
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { manualClock } from "./clock";
+
+describe("manualClock", () => {
+  it("only moves when told to", () => {
+    const clock = manualClock(100);
+    expect(clock.now()).toBe(100);
+    clock.advance(16);
+    clock.advance(16);
+    expect(clock.now()).toBe(132);
+    clock.set(0);
+    expect(clock.now()).toBe(0);
+  });
+});
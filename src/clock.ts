@@ -0,0 +1,35 @@
+/**
+ * Where DraggableRenderer (and the drag behaviors it runs) get the
+ * time, in milliseconds. Normally that's `performance.now()`, but
+ * tests, video export and replay tools can provide their own clock to
+ * make springs and other animations reproducible.
+ */
+export type Clock = {
+  now(): number;
+};
+
+export const performanceClock: Clock = {
+  now: () => performance.now(),
+};
+
+/**
+ * A clock that only moves when you tell it to.
+ */
+export type ManualClock = Clock & {
+  /** Move the clock forward by `ms` milliseconds. */
+  advance(ms: number): void;
+  set(time: number): void;
+};
+
+export function manualClock(start = 0): ManualClock {
+  let time = start;
+  return {
+    now: () => time,
+    advance(ms) {
+      time += ms;
+    },
+    set(newTime) {
+      time = newTime;
+    },
+  };
+}
@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isDemo } from ".";
+import { DragFuzzOptions, formatDragFuzzFailure, fuzzDrags } from "../dragFuzz";
+import { seededRandom } from "../utils/random";
+import { demoList } from "./list";
+import { pathToId } from "./pathToId";
+import { captureDemoDraggables } from "./renderDemoSvgs";
+
+// Drag fuzzing: drag every (id'd) draggable element in each listed
+// demo along random pointer paths, and fail with a reproduction for
+// each error that comes out. Fuzzing is seeded, so failures are
+// stable from run to run.
+
+// Lazy glob, as in demos.test.tsx.
+const modules = import.meta.glob<{ default: unknown }>("../demos/**/*.tsx");
+
+// Light enough to run with the rest of the tests. (For a deeper
+// search, raise these, or try other seeds.)
+const fuzzOptions: DragFuzzOptions = { runs: 2, dragsPerRun: 2, steps: 4 };
+
+function shouldSkip(id: string) {
+  // As in demos.test.tsx, these need a real browser.
+  return id.startsWith("bluefish-");
+}
+
+describe("drag fuzzing", () => {
+  beforeEach(() => {
+    // Demos that make random ids or positions need them to be the
+    // same every run too, for failures to reproduce.
+    vi.spyOn(Math, "random").mockImplementation(seededRandom(1));
+    // Some behaviors warn when they're dragged somewhere odd; that's
+    // fine here, as long as they don't throw.
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  for (const id of demoList) {
+    if (shouldSkip(id)) continue;
+
+    it(id, { timeout: 30_000 }, async () => {
+      const load = Object.entries(modules).find(
+        ([path]) => pathToId(path) === id,
+      )?.[1];
+      if (!load) throw new Error(`No module found for demo "${id}"`);
+      const mod = await load();
+      if (!isDemo(mod.default)) throw new Error(`"${id}" is not a demo`);
+
+      for (const { draggable, state } of captureDemoDraggables(
+        mod.default.Component,
+      )) {
+        const { failures } = fuzzDrags(draggable, state, fuzzOptions);
+        expect(failures.map(formatDragFuzzFailure)).toEqual([]);
+      }
+    });
+  }
+});
@@ -0,0 +1,132 @@
+// @vitest-environment jsdom
+import { describe, expect, it, vi } from "vitest";
+import { isDemo } from ".";
+import { DragPointers, simulateDragHeadless } from "../headless";
+import { renderDraggableInert } from "../renderDraggable";
+import { LayeredSvgx } from "../svgx/layers";
+import { seededRandom } from "../utils/random";
+import { demoList } from "./list";
+import { pathToId } from "./pathToId";
+import { captureDemoDraggables } from "./renderDemoSvgs";
+import { diffSnapshots, snapshotLayered } from "./snapshots";
+
+// Visual regression snapshots: each listed demo's diagram, rendered
+// in its initial state (and, for a few demos, partway through a
+// scripted drag and after its drop), compared against the SVGs in
+// __snapshots__/demos. When a snapshot doesn't match, the failure
+// says which layers and attributes changed. If the change is
+// intended, update the snapshots with `npx vitest run -u`.
+
+// Lazy glob, as in demos.test.tsx.
+const modules = import.meta.glob<{ default: unknown }>("../demos/**/*.tsx");
+const snapshots = import.meta.glob<string>("./__snapshots__/demos/*.svg", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+});
+
+const scriptedDrags: Record<
+  string,
+  { draggedId: string; pointers: DragPointers }
+> = {
+  perm: { draggedId: "A", pointers: ["center", [80, 25], [130, 25]] },
+  kanban: {
+    draggedId: "card-card-1",
+    pointers: ["center", [120, 50], [190, 60]],
+  },
+};
+
+function shouldSkip(id: string) {
+  // As in demos.test.tsx, these need a real browser.
+  return id.startsWith("bluefish-");
+}
+
+async function expectSnapshot(name: string, layered: LayeredSvgx) {
+  const actual = snapshotLayered(layered);
+  const file = `./__snapshots__/demos/${name}.svg`;
+  const expected = snapshots[file];
+  const diffs =
+    expected !== undefined && expected !== actual
+      ? diffSnapshots(expected, actual)
+      : [];
+  await expect(actual).toMatchFileSnapshot(
+    file,
+    diffs.length > 0 ? `${name} changed:\n  ${diffs.join("\n  ")}` : undefined,
+  );
+}
+
+describe("demo snapshots", () => {
+  for (const id of demoList) {
+    if (shouldSkip(id)) continue;
+
+    it(id, async () => {
+      const load = Object.entries(modules).find(
+        ([path]) => pathToId(path) === id,
+      )?.[1];
+      if (!load) throw new Error(`No module found for demo "${id}"`);
+
+      // Some demos make random ids
+      vi.spyOn(Math, "random").mockImplementation(seededRandom(1));
+      try {
+        const mod = await load();
+        if (!isDemo(mod.default)) throw new Error(`"${id}" is not a demo`);
+        const captured = captureDemoDraggables(mod.default.Component);
+
+        for (const [i, { draggable, state }] of captured.entries()) {
+          const name = captured.length === 1 ? id : `${id}-${i + 1}`;
+          await expectSnapshot(
+            name,
+            renderDraggableInert(draggable, state, null, false),
+          );
+        }
+
+        const script = scriptedDrags[id];
+        if (script) {
+          const [{ draggable, state }] = captured;
+          const { results, dropState } = simulateDragHeadless(
+            draggable,
+            state,
+            script.draggedId,
+            script.pointers,
+          );
+          await expectSnapshot(
+            `${id}.drag`,
+            results[results.length - 1].preview,
+          );
+          await expectSnapshot(
+            `${id}.drop`,
+            renderDraggableInert(draggable, dropState, null, false),
+          );
+        }
+      } finally {
+        vi.restoreAllMocks();
+      }
+    });
+  }
+});
+
+describe("diffSnapshots", () => {
+  it("says which layers and attributes changed", () => {
+    const before = [
+      `<svg xmlns="http://www.w3.org/2000/svg">`,
+      `<g></g>`,
+      `<g id="a" transform="translate(0,0)"><rect fill="red"></rect><text>hi</text></g>`,
+      `<g id="b"></g>`,
+      `</svg>`,
+    ].join("\n");
+    const after = [
+      `<svg xmlns="http://www.w3.org/2000/svg">`,
+      `<g></g>`,
+      `<g id="a" transform="translate(5,0)"><rect fill="blue"></rect><text>bye</text></g>`,
+      `<circle id="c"></circle>`,
+      `</svg>`,
+    ].join("\n");
+    expect(diffSnapshots(before, after)).toEqual([
+      `layer "b": removed`,
+      `layer "a": transform "translate(0,0)" → "translate(5,0)"`,
+      `layer "a" › rect: fill "red" → "blue"`,
+      `layer "a" › text: text "hi" → "bye"`,
+      `layer "c": added`,
+    ]);
+  });
+});
@@ -8,7 +8,8 @@ import { pathToId } from "./pathToId";
 
 // These tests check that each demo component can be rendered without
 // errors or warnings. They don't actually check dragging, because
-// that requires a user interaction. That would be fun, wouldn't it?
+// that requires a user interaction. (Drag behavior can be tested
+// without one; see simulateDragHeadless in headless.ts.)
 
 afterEach(cleanup);
 
@@ -64,6 +64,7 @@ export const demoList = [
   "weird-floating-vs-fixed",
   "snap-to-islands",
   "snap-to-islands-in-out",
+  "snap-to-islands-blend",
   "magnetic-targets",
   "bluefish-static",
   "bluefish-perm",
@@ -0,0 +1,34 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { renderDemoSvgs } from "./renderDemoSvgs";
+
+describe("renderDemoSvgs", () => {
+  it("renders a demo's initial state at the demo's size", async () => {
+    const { svgs, failures } = await renderDemoSvgs({ demoIds: ["perm"] });
+    expect(failures).toEqual([]);
+    expect(svgs.map((s) => s.fileName)).toEqual(["perm.svg"]);
+    expect(svgs[0].svg).toContain('viewBox="0 0 350 100"');
+    expect(svgs[0].svg).toMatch(/id="A" transform="translate\(0,0\) "/);
+  });
+
+  it("renders a given state, fit to the diagram", async () => {
+    const { svgs } = await renderDemoSvgs({
+      demoIds: ["perm"],
+      state: { perm: ["D", "C", "B", "A"] },
+      fit: true,
+    });
+    expect(svgs[0].svg).toContain('viewBox="0 0 200 50"');
+    expect(svgs[0].svg).toMatch(/id="A" transform="translate\(150,0\) "/);
+  });
+
+  it("reports demos it can't render", async () => {
+    const { svgs, failures, skipped } = await renderDemoSvgs({
+      demoIds: ["no-such-demo", "controlled"],
+    });
+    expect(svgs).toEqual([]);
+    expect(failures.map((f) => f.demoId)).toEqual(["no-such-demo"]);
+    expect(skipped).toEqual([
+      { demoId: "controlled", reason: "no DemoDraggable" },
+    ]);
+  });
+});
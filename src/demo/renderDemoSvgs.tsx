@@ -0,0 +1,129 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import { MemoryRouter } from "react-router-dom";
+import { isDemo } from ".";
+import { StaticSvgOptions, renderStaticSvg } from "../staticSvg";
+import { pathToId } from "./pathToId";
+import { CapturedDemoDraggable, DemoCaptureContext } from "./ui";
+
+// Renders demos' diagrams to SVG strings, without a browser. This is
+// what the render-svgs script (in the repo root) runs.
+
+// Lazy glob (no `eager: true`), like demos.test.tsx, rather than
+// ./registry's: a demo that can't load outside a browser (e.g.
+// bluefish) shouldn't stop the rest from rendering.
+const modules = import.meta.glob<{ default: unknown }>("../demos/**/*.tsx");
+
+export type DemoSvg = {
+  demoId: string;
+  /** `<demoId>.svg`, or `<demoId>-<n>.svg` for demos with several diagrams. */
+  fileName: string;
+  svg: string;
+};
+
+export type RenderDemoSvgsResult = {
+  svgs: DemoSvg[];
+  /** Demos that failed to load or render. */
+  failures: { demoId: string; error: unknown }[];
+  /** Demos that weren't rendered, and why. */
+  skipped: { demoId: string; reason: string }[];
+};
+
+export type RenderDemoSvgsOptions = {
+  /**
+   * Demos to render. Default: all of them (except bluefish ones,
+   * which need a real browser).
+   */
+  demoIds?: string[];
+  /**
+   * A state to render instead of the initial one. Only works for a
+   * single demo with a single diagram.
+   */
+  state?: object;
+  /**
+   * Fit the SVG to the diagram's bounds, rather than the width &
+   * height the demo gives it.
+   */
+  fit?: boolean;
+};
+
+export async function renderDemoSvgs({
+  demoIds,
+  state,
+  fit = false,
+}: RenderDemoSvgsOptions = {}): Promise<RenderDemoSvgsResult> {
+  const result: RenderDemoSvgsResult = { svgs: [], failures: [], skipped: [] };
+  const loaders = new Map(
+    Object.entries(modules).map(([path, load]) => [pathToId(path), load]),
+  );
+  const ids =
+    demoIds ??
+    [...loaders.keys()].sort().filter((demoId) => {
+      if (!demoId.startsWith("bluefish-")) return true;
+      result.skipped.push({ demoId, reason: "needs a real browser" });
+      return false;
+    });
+  if (state !== undefined && ids.length !== 1) {
+    throw new Error("A state can only be given for a single demo");
+  }
+
+  for (const demoId of ids) {
+    const load = loaders.get(demoId);
+    if (!load) {
+      result.failures.push({
+        demoId,
+        error: new Error(`No demo with id "${demoId}"`),
+      });
+      continue;
+    }
+    try {
+      const mod = await load();
+      // Not every file under demos/ is a demo.
+      if (!isDemo(mod.default)) {
+        if (demoIds) throw new Error(`"${demoId}" is not a demo`);
+        continue;
+      }
+      const captured = captureDemoDraggables(mod.default.Component);
+      if (captured.length === 0) {
+        result.skipped.push({ demoId, reason: "no DemoDraggable" });
+        continue;
+      }
+      if (state !== undefined && captured.length !== 1) {
+        throw new Error(
+          `"${demoId}" has ${captured.length} diagrams; a state can only be given for one`,
+        );
+      }
+      captured.forEach(({ draggable, width, height, ...c }, i) => {
+        const options: StaticSvgOptions = fit
+          ? {}
+          : { width, height, viewBox: { x: 0, y: 0, width, height } };
+        result.svgs.push({
+          demoId,
+          fileName:
+            captured.length === 1 ? `${demoId}.svg` : `${demoId}-${i + 1}.svg`,
+          svg: renderStaticSvg(draggable, state ?? c.state, options),
+        });
+      });
+    } catch (error) {
+      result.failures.push({ demoId, error });
+    }
+  }
+  return result;
+}
+
+/**
+ * Render a demo (on the server, so no effects run) to find out which
+ * DemoDraggables it shows.
+ */
+export function captureDemoDraggables(
+  Component: React.ComponentType,
+): CapturedDemoDraggable[] {
+  const captured: CapturedDemoDraggable[] = [];
+  renderToStaticMarkup(
+    <MemoryRouter>
+      <DemoCaptureContext.Provider value={(c) => captured.push(c)}>
+        <Component />
+      </DemoCaptureContext.Provider>
+    </MemoryRouter>,
+  );
+  return captured;
+}
@@ -0,0 +1,110 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import { stripForSvgFile } from "../staticSvg";
+import { LayeredSvgx, compareStackingPaths } from "../svgx/layers";
+
+// Visual regression snapshots for demos (see demoSnapshots.test.tsx):
+// a rendered diagram as normalized SVG text, with a line per layer,
+// and a diff of two snapshots that says which layers changed and how.
+
+/**
+ * Layers are written in stacking order, one per line, with numbers in
+ * attributes rounded so floating-point noise doesn't count as a
+ * change.
+ */
+export function snapshotLayered(layered: LayeredSvgx): string {
+  const lines = [...layered.byId.values()]
+    .sort((a, b) => compareStackingPaths(a.stackingPath, b.stackingPath))
+    .map((layer) =>
+      renderToStaticMarkup(stripForSvgFile(layer.element)).replace(
+        /="([^"]*)"/g,
+        (_, value: string) => `="${roundNumbers(value)}"`,
+      ),
+    );
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg">`,
+    ...lines,
+    `</svg>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * How snapshot `actual` differs from snapshot `expected`, layer by
+ * layer (matched up by id), as lines like
+ * `layer "B" › rect: fill "red" → "blue"`.
+ */
+export function diffSnapshots(expected: string, actual: string): string[] {
+  const before = parseLayers(expected);
+  const after = parseLayers(actual);
+  const diffs: string[] = [];
+  for (const id of before.keys()) {
+    if (!after.has(id)) diffs.push(`${layerName(id)}: removed`);
+  }
+  for (const [id, element] of after) {
+    const old = before.get(id);
+    if (old) diffElements(old, element, layerName(id), diffs);
+    else diffs.push(`${layerName(id)}: added`);
+  }
+  const order = (layers: Map<string, Element>, other: Map<string, Element>) =>
+    [...layers.keys()].filter((id) => other.has(id)).join(" ");
+  if (order(before, after) !== order(after, before)) {
+    diffs.push("layers were restacked");
+  }
+  return diffs;
+}
+
+function parseLayers(snapshot: string): Map<string, Element> {
+  const doc = new DOMParser().parseFromString(snapshot, "image/svg+xml");
+  return new Map(
+    [...doc.documentElement.children].map((el) => [el.id, el] as const),
+  );
+}
+
+function layerName(id: string): string {
+  return id === "" ? "root layer" : `layer "${id}"`;
+}
+
+function diffElements(a: Element, b: Element, where: string, diffs: string[]) {
+  if (a.tagName !== b.tagName) {
+    diffs.push(`${where}: <${a.tagName}> became <${b.tagName}>`);
+    return;
+  }
+  const names = new Set([...a.getAttributeNames(), ...b.getAttributeNames()]);
+  for (const name of names) {
+    const [va, vb] = [a.getAttribute(name), b.getAttribute(name)];
+    if (va !== vb) diffs.push(`${where}: ${name} ${show(va)} → ${show(vb)}`);
+  }
+
+  const [ca, cb] = [[...a.children], [...b.children]];
+  if (ca.length !== cb.length) {
+    diffs.push(`${where}: ${ca.length} children → ${cb.length}`);
+    return;
+  }
+  if (ca.length === 0) {
+    if (a.textContent !== b.textContent) {
+      diffs.push(
+        `${where}: text ${show(a.textContent)} → ${show(b.textContent)}`,
+      );
+    }
+    return;
+  }
+  cb.forEach((child, i) => {
+    const sameTag = cb.filter((c) => c.tagName === child.tagName);
+    const name =
+      sameTag.length > 1
+        ? `${child.tagName}[${sameTag.indexOf(child)}]`
+        : child.tagName;
+    diffElements(ca[i], child, `${where} › ${name}`, diffs);
+  });
+}
+
+function show(value: string | null): string {
+  return value === null ? "(none)" : JSON.stringify(value);
+}
+
+function roundNumbers(value: string): string {
+  return value.replace(/-?\d*\.\d+(e-?\d+)?/g, (n) => {
+    const rounded = Math.round(parseFloat(n) * 1000) / 1000;
+    return String(rounded === 0 ? 0 : rounded);
+  });
+}
@@ -19,6 +19,7 @@ import { DraggableRenderer, type DragStatus } from "../DraggableRenderer";
 import { ErrorBoundary } from "../ErrorBoundary";
 import { Draggable } from "../draggable";
 import { type Bounds } from "../svgx/bounds";
+import { useDraggableHistory } from "../useDraggableHistory";
 import { assert } from "../utils/assert";
 import { LayerHighlight, LayersList } from "./LayersList";
 import { OpenInEditor } from "./OpenInEditor";
@@ -436,22 +437,59 @@ export function DemoSettingsBar({
   );
 }
 
-export function DemoDraggable<T extends object>({
-  draggable,
-  initialState,
-  width,
-  height,
-  stateRef,
-  stateOverride,
-}: {
+type DemoDraggableProps<T extends object> = {
   draggable: Draggable<T>;
   initialState: T;
   width: number;
   height: number;
   stateRef?: React.RefObject<T | null>;
   stateOverride?: Partial<T>;
-}) {
-  const [ownState, setOwnState] = useState(initialState);
+};
+
+export type CapturedDemoDraggable = {
+  draggable: Draggable<any>;
+  state: object;
+  width: number;
+  height: number;
+};
+
+/**
+ * When this is provided, DemoDraggables don't render anything; they
+ * just report what they would have rendered. (This is how
+ * renderDemoSvgs gets at demos' diagrams.)
+ */
+export const DemoCaptureContext = createContext<
+  ((captured: CapturedDemoDraggable) => void) | null
+>(null);
+
+export function DemoDraggable<T extends object>(props: DemoDraggableProps<T>) {
+  const capture = useContext(DemoCaptureContext);
+  if (capture) {
+    const { draggable, initialState, width, height, stateOverride } = props;
+    capture({
+      draggable,
+      state: stateOverride
+        ? { ...initialState, ...stateOverride }
+        : initialState,
+      width,
+      height,
+    });
+    return null;
+  }
+  return <LiveDemoDraggable {...props} />;
+}
+
+function LiveDemoDraggable<T extends object>({
+  draggable,
+  initialState,
+  width,
+  height,
+  stateRef,
+  stateOverride,
+}: DemoDraggableProps<T>) {
+  // Demos get undo/redo for free.
+  const history = useDraggableHistory(initialState);
+  const ownState = history.state;
   const state = useMemo(
     () => (stateOverride ? { ...ownState, ...stateOverride } : ownState),
     [ownState, stateOverride],
@@ -513,7 +551,10 @@ export function DemoDraggable<T extends object>({
               onDragStatus={setStatus}
               showDebugOverlay={showDebugOverlay}
               showVaryVisualizer={showVaryVisualizer}
-              onDropState={setOwnState}
+              stateTransition={history.rendererProps.stateTransition}
+              onDropState={history.record}
+              onUndo={history.undo}
+              onRedo={history.redo}
             />
             {hoveredLayerBounds && (
               <LayerHighlight
@@ -51,7 +51,7 @@ const draggable: Draggable<State> = ({ state, d, setState }) => (
               specs.push(d.between([state, { slideIdx: state.slideIdx - 1 }]));
             if (state.slideIdx < SLIDES.length - 1)
               specs.push(d.between([state, { slideIdx: state.slideIdx + 1 }]));
-            return d.closest(specs);
+            return d.closest(specs).withMomentum();
           }}
           opacity={idx === state.slideIdx ? 1 : 0}
           pointerEvents={idx === state.slideIdx ? "auto" : "none"}
@@ -149,6 +149,8 @@ export default demo(
       <DemoNotes>
         Partially-AI-generated carousel with swipe navigation, interactive dots,
         and arrow buttons. Ought to use clipPaths but those don't work yet.
+        Slides use <code>withMomentum</code>, so a quick flick is enough to
+        change slides.
       </DemoNotes>
       <DemoDraggable
         draggable={draggable}
@@ -158,5 +160,5 @@ export default demo(
       />
     </div>
   ),
-  { tags: ["setState", "d.between"] },
+  { tags: ["setState", "d.between", "spec.withMomentum"] },
 );
@@ -51,7 +51,12 @@ const CARD_GAP = 5;
 const HEADER_HEIGHT = 25;
 const COLUMN_PADDING = 5;
 
-const draggable: Draggable<State> = ({ state, d, draggedId }) => {
+const draggable: Draggable<State> = ({ state, d, draggedId, dragInfo }) => {
+  // While a card is dragged, highlight the column it will land in.
+  const landingColumnId = dragInfo?.dropState.columns.find((column) =>
+    column.cards.some((card) => `card-${card.id}` === draggedId),
+  )?.id;
+
   return (
     <g>
       {state.columns.map((column, colIdx) => {
@@ -86,8 +91,8 @@ const draggable: Draggable<State> = ({ state, d, draggedId }) => {
               y={0}
               width={COLUMN_WIDTH}
               height={columnHeight}
-              fill="#f0f0f0"
-              stroke="#ccc"
+              fill={landingColumnId === column.id ? "#e3f2fd" : "#f0f0f0"}
+              stroke={landingColumnId === column.id ? "#90caf9" : "#ccc"}
               strokeWidth={1}
               rx={4}
             />
@@ -128,9 +133,10 @@ const draggable: Draggable<State> = ({ state, d, draggedId }) => {
                     isDragged ? 10 : draggedId === `column-${column.id}` ? 6 : 1
                   }
                   dragologyOnDrag={() =>
-                    d.closest(cardMoveStates).withFloating({
-                      ghost: { opacity: 0.3 },
-                    })
+                    d
+                      .closest(cardMoveStates)
+                      .withFloating({ ghost: { opacity: 0.3 } })
+                      .withBranchTransition("200ms stagger=25ms")
                   }
                 >
                   <rect
@@ -176,8 +182,10 @@ export default demo(
       "d.between",
       "d.closest",
       "spec.withFloating [ghost]",
+      "spec.withBranchTransition [stagger]",
       "spec.withSnapRadius",
       "reordering",
+      "dragInfo",
     ],
   },
 );
@@ -0,0 +1,65 @@
+import { demo } from "../demo";
+import { DemoDraggable, DemoNotes } from "../demo/ui";
+import { Draggable } from "../draggable";
+import { param } from "../DragSpec";
+import { translate } from "../svgx/helpers";
+
+type State = { type: "on-island" } | { type: "floating"; x: number; y: number };
+
+const island = { x: 100, y: 100 };
+const R_INNER = 20;
+const R_OUTER = 70;
+
+const initialState: State = { type: "on-island" };
+
+const draggable: Draggable<State> = ({ state, d }) => (
+  <g>
+    <g transform={translate(island.x, island.y)}>
+      {[R_INNER, R_OUTER].map((r) => (
+        <circle
+          key={r}
+          r={r}
+          fill="none"
+          stroke="#ccc"
+          strokeWidth={2}
+          strokeDasharray={r === R_OUTER ? "4 4" : undefined}
+        />
+      ))}
+    </g>
+    <circle
+      id="dot"
+      r={10}
+      fill="#4488ff"
+      transform={translate(state.type === "on-island" ? island : state)}
+      dragologyOnDrag={() =>
+        d
+          .fixed({ type: "on-island" as const })
+          .whenFar(
+            d.vary({ type: "floating", x: 0, y: 0 }, [param("x"), param("y")]),
+            { blend: { inner: R_INNER, outer: R_OUTER } },
+          )
+      }
+    />
+  </g>
+);
+
+export default demo(
+  () => (
+    <>
+      <DemoNotes>
+        Like snap-to-islands-in-out, but instead of switching at a gap, the
+        preview fades from the island to the pointer as the gap goes from{" "}
+        {R_INNER} to {R_OUTER}. Dropping lands on whichever side shows more.
+      </DemoNotes>
+      <DemoDraggable
+        draggable={draggable}
+        initialState={initialState}
+        width={200}
+        height={200}
+      />
+    </>
+  ),
+  {
+    tags: ["d.vary", "spec.whenFar [blend]"],
+  },
+);
@@ -22,7 +22,10 @@ const POSITIONS = [
 
 const SIZE = 40;
 
-function makeDraggable(stickiness: number): Draggable<State> {
+function makeDraggable(
+  stickiness: number,
+  startBias: number,
+): Draggable<State> {
   return ({ state, d }) => (
     <g>
       {POSITIONS.map((pos, i) => (
@@ -46,6 +49,7 @@ function makeDraggable(stickiness: number): Draggable<State> {
         dragologyOnDrag={() =>
           d.closest([{ pos: 0 }, { pos: 1 }, { pos: 2 }] as State[], {
             stickiness,
+            hysteresis: { toStart: startBias, fade: { distance: 200 } },
           })
         }
       />
@@ -54,11 +58,16 @@ function makeDraggable(stickiness: number): Draggable<State> {
 }
 
 const STICKINESS_VALUES = [0, 10, 30, 60] as const;
+const START_BIAS_VALUES = [0, 30, 60] as const;
 
 export default demo(
   () => {
     const [stickiness, setStickiness] = useState<number>(0);
-    const draggable = useMemo(() => makeDraggable(stickiness), [stickiness]);
+    const [startBias, setStartBias] = useState<number>(0);
+    const draggable = useMemo(
+      () => makeDraggable(stickiness, startBias),
+      [stickiness, startBias],
+    );
     return (
       <>
         <DemoNotes>
@@ -67,6 +76,10 @@ export default demo(
             <code>closest</code>, making it resist switching until the pointer
             is clearly closer to another option.
           </p>
+          <p>
+            A start bias is the same, but toward where the drag started, and
+            fades out as the pointer gets further away.
+          </p>
         </DemoNotes>
         <DemoWithConfig>
           <DemoDraggable
@@ -82,10 +95,16 @@ export default demo(
               onChange={setStickiness}
               options={STICKINESS_VALUES}
             />
+            <ConfigSelect
+              label="Start bias"
+              value={startBias}
+              onChange={setStartBias}
+              options={START_BIAS_VALUES}
+            />
           </ConfigPanel>
         </DemoWithConfig>
       </>
     );
   },
-  { tags: ["d.closest [stickiness]"] },
+  { tags: ["d.closest [stickiness]", "d.closest [hysteresis]"] },
 );
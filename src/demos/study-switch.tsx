@@ -25,7 +25,9 @@ export const draggable: Draggable<State> = ({ state, d }) => (
       stroke="#e5e7eb"
       strokeWidth={1}
       filter="url(#shadow)"
-      dragologyOnDrag={() => d.between([{ status: "off" }, { status: "on" }])}
+      dragologyOnDrag={() =>
+        d.between([{ status: "off" }, { status: "on" }]).withMomentum()
+      }
     />
 
     {/* Drop-shadow filter */}
@@ -46,5 +48,5 @@ export default demo(
       height={200}
     />
   ),
-  { tags: ["d.between"] },
+  { tags: ["d.between", "spec.withMomentum"] },
 );
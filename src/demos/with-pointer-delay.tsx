@@ -22,7 +22,7 @@ function withPointerDelay<T extends object>(
     const log: { time: number; pointer: Vec2 }[] = [];
 
     return (frame) => {
-      const now = performance.now();
+      const now = ctx.clock.now();
       log.push({ time: now, pointer: frame.pointer });
 
       const targetTime = now - delayMs;
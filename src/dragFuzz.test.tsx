@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { param } from "./DragSpec";
+import { formatDragFuzzFailure, fuzzDrags } from "./dragFuzz";
+import { Draggable } from "./draggable";
+import { simulateDragHeadless } from "./headless";
+import { translate } from "./svgx/helpers";
+import { assert } from "./utils/assert";
+
+type State = { x: number };
+
+// A slider that breaks if it's dragged too far right.
+const fragile: Draggable<State> = ({ state, d }) => {
+  assert(state.x < 150, "knob went off the end");
+  return (
+    <g>
+      <rect width={200} height={20} />
+      <circle
+        id="knob"
+        transform={translate(state.x, 10)}
+        r={10}
+        dragologyOnDrag={() => d.vary(state, param("x"))}
+      />
+    </g>
+  );
+};
+
+describe("fuzzDrags", () => {
+  it("finds errors, with a small reproduction", () => {
+    const { failures, drags } = fuzzDrags(fragile, { x: 0 });
+    expect(drags).toBeGreaterThan(0);
+    expect(failures).toHaveLength(1);
+    const [failure] = failures;
+    expect(failure.draggedId).toBe("knob");
+    expect(failure.state).toEqual({ x: 0 });
+    // One move is enough to break it.
+    expect(failure.pointers).toHaveLength(2);
+    expect(() =>
+      simulateDragHeadless(fragile, failure.state, "knob", failure.pointers),
+    ).toThrow(/knob went off the end/);
+    expect(formatDragFuzzFailure(failure)).toMatch(
+      /^Dragging "knob" threw: .*knob went off the end\n {2}pointers: \["center",\[\d+,-?\d+\]\]\n {2}state: \{"x":0\}$/,
+    );
+  });
+
+  it("finds the same failures every time", () => {
+    const format = () =>
+      fuzzDrags(fragile, { x: 0 }, { seed: 7 }).failures.map(
+        formatDragFuzzFailure,
+      );
+    expect(format()).toEqual(format());
+  });
+
+  it("counts draggables it can't drag", () => {
+    const idless: Draggable<State> = ({ state, d }) => (
+      <circle
+        transform={translate(state.x, 0)}
+        r={10}
+        dragologyOnDrag={() => d.vary(state, param("x"))}
+      />
+    );
+    expect(fuzzDrags(idless, { x: 0 })).toEqual({
+      failures: [],
+      drags: 0,
+      idlessDraggables: 1,
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import React from "react";
+import { Draggable, getOnDragCallbackOnElement } from "./draggable";
+import { toJSONValue } from "./dragRecording";
+import { DragPointers, simulateDragHeadless } from "./headless";
+import { Vec2 } from "./math/vec2";
+import {
+  renderDraggableInert,
+  renderDraggableInertUnlayered,
+} from "./renderDraggable";
+import { Svgx, shouldRecurseIntoChildren } from "./svgx";
+import { getLayeredBounds } from "./svgx/layeredBounds";
+import { seededRandom } from "./utils/random";
+
+/**
+ * Drag fuzzing: drag a draggable's elements along random pointer
+ * paths (headlessly, with `simulateDragHeadless`) and collect the
+ * errors that come out, each with the smallest pointer path and
+ * earliest state we could find that still reproduce it.
+ *
+ * Runs are seeded, so a failure found once will be found again.
+ * Only elements with ids can be dragged headlessly; others are
+ * counted in `idlessDraggables`.
+ */
+
+export type DragFuzzOptions = {
+  /** Default: 1. */
+  seed?: number;
+  /**
+   * How many runs to do. A run starts from the given state and
+   * continues from wherever each of its drags dropped. Default: 4.
+   */
+  runs?: number;
+  /** Drags per run. Default: 3. */
+  dragsPerRun?: number;
+  /** Pointer moves per drag (after it starts). Default: 6. */
+  steps?: number;
+};
+
+export type DragFuzzFailure<T extends object> = {
+  draggedId: string;
+  /** The state the failing drag starts from. */
+  state: T;
+  /** Pointer positions, as taken by `simulateDragHeadless`. */
+  pointers: DragPointers;
+  error: unknown;
+};
+
+export type DragFuzzResult<T extends object> = {
+  failures: DragFuzzFailure<T>[];
+  /** How many drags were tried (not counting shrinking). */
+  drags: number;
+  /** Draggable elements seen without an id, which were skipped. */
+  idlessDraggables: number;
+};
+
+export function fuzzDrags<T extends object>(
+  draggable: Draggable<T>,
+  state: T,
+  { seed = 1, runs = 4, dragsPerRun = 3, steps = 6 }: DragFuzzOptions = {},
+): DragFuzzResult<T> {
+  const random = seededRandom(seed);
+  const result: DragFuzzResult<T> = {
+    failures: [],
+    drags: 0,
+    idlessDraggables: 0,
+  };
+  const found = new Set<string>();
+
+  for (let run = 0; run < runs; run++) {
+    const history: T[] = [state];
+    for (let i = 0; i < dragsPerRun; i++) {
+      const current = history[history.length - 1];
+      let targets;
+      try {
+        targets = findDraggables(draggable, current);
+      } catch {
+        // A drop state that can't be rendered; the drag that got
+        // here will already have been reported (it rendered it too).
+        break;
+      }
+      result.idlessDraggables = Math.max(
+        result.idlessDraggables,
+        targets.idless,
+      );
+      if (targets.ids.length === 0) break;
+
+      const draggedId = pick(random, targets.ids);
+      const pointers = randomPointers(
+        random,
+        renderedArea(draggable, current),
+        steps,
+      );
+      result.drags++;
+      const outcome = tryDrag(draggable, current, draggedId, pointers);
+      if ("dropState" in outcome) {
+        history.push(outcome.dropState);
+        continue;
+      }
+
+      const message = errorMessage(outcome.error);
+      const key = `${draggedId}: ${message}`;
+      if (!found.has(key)) {
+        found.add(key);
+        result.failures.push(
+          shrinkFailure(draggable, history, {
+            draggedId,
+            state: current,
+            pointers,
+            error: outcome.error,
+          }),
+        );
+      }
+      break;
+    }
+  }
+  return result;
+}
+
+/** A failure, written out so it can be pasted into a test. */
+export function formatDragFuzzFailure<T extends object>(
+  failure: DragFuzzFailure<T>,
+): string {
+  return [
+    `Dragging "${failure.draggedId}" threw: ${errorMessage(failure.error)}`,
+    `  pointers: ${JSON.stringify(
+      failure.pointers.map((p) => (p === "center" ? p : Vec2(p).arr())),
+    )}`,
+    `  state: ${JSON.stringify(toJSONValue(failure.state))}`,
+  ].join("\n");
+}
+
+function tryDrag<T extends object>(
+  draggable: Draggable<T>,
+  state: T,
+  draggedId: string,
+  pointers: DragPointers,
+): { dropState: T } | { error: unknown } {
+  try {
+    return simulateDragHeadless(draggable, state, draggedId, pointers);
+  } catch (error) {
+    return { error };
+  }
+}
+
+/**
+ * Make a failure smaller while it still fails the same way: drop
+ * pointer positions, round the rest, and start from the earliest
+ * state in the run that still has the dragged element.
+ */
+function shrinkFailure<T extends object>(
+  draggable: Draggable<T>,
+  history: T[],
+  failure: DragFuzzFailure<T>,
+): DragFuzzFailure<T> {
+  const message = errorMessage(failure.error);
+  const attempt = (state: T, pointers: DragPointers) => {
+    const outcome = tryDrag(draggable, state, failure.draggedId, pointers);
+    return "error" in outcome && errorMessage(outcome.error) === message
+      ? { ...failure, state, pointers, error: outcome.error }
+      : null;
+  };
+
+  let shrunk = failure;
+  for (let i = shrunk.pointers.length - 1; i >= 1; i--) {
+    const [first, ...rest] = shrunk.pointers;
+    rest.splice(i - 1, 1);
+    shrunk = attempt(shrunk.state, [first, ...rest]) ?? shrunk;
+  }
+  const [first, ...rest] = shrunk.pointers;
+  const rounded: DragPointers = [
+    first === "center" ? first : Vec2(first).round(),
+    ...rest.map((p) => Vec2(p).round()),
+  ];
+  shrunk = attempt(shrunk.state, rounded) ?? shrunk;
+  for (const state of history) {
+    if (state === shrunk.state) break;
+    const earlier = attempt(state, shrunk.pointers);
+    if (earlier) return earlier;
+  }
+  return shrunk;
+}
+
+/** Ids of the draggable elements in a state's render. */
+function findDraggables<T extends object>(
+  draggable: Draggable<T>,
+  state: T,
+): { ids: string[]; idless: number } {
+  const ids: string[] = [];
+  let idless = 0;
+  const walk = (element: Svgx) => {
+    if (getOnDragCallbackOnElement(element)) {
+      if (element.props.id) ids.push(element.props.id);
+      else idless++;
+    }
+    if (!shouldRecurseIntoChildren(element)) return;
+    React.Children.forEach(element.props.children, (child) => {
+      if (React.isValidElement(child)) walk(child as Svgx);
+    });
+  };
+  walk(renderDraggableInertUnlayered(draggable, state, null, false));
+  return { ids, idless };
+}
+
+type Area = { min: Vec2; max: Vec2 };
+
+/** Where pointers go: the diagram's bounds, and a bit beyond. */
+function renderedArea<T extends object>(
+  draggable: Draggable<T>,
+  state: T,
+): Area {
+  const bounds = getLayeredBounds(
+    renderDraggableInert(draggable, state, null, false),
+  );
+  const margin = 50;
+  if (bounds.empty) return { min: Vec2(-margin), max: Vec2(margin) };
+  return {
+    min: Vec2(bounds.minX - margin, bounds.minY - margin),
+    max: Vec2(bounds.maxX + margin, bounds.maxY + margin),
+  };
+}
+
+/**
+ * A mix of jumps anywhere, small nudges, and staying put (which is
+ * good at finding degenerate geometry, like coincident points).
+ */
+function randomPointers(
+  random: () => number,
+  area: Area,
+  steps: number,
+): DragPointers {
+  const anywhere = () =>
+    Vec2(
+      area.min.x + random() * (area.max.x - area.min.x),
+      area.min.y + random() * (area.max.y - area.min.y),
+    );
+  const pointers: Vec2[] = [];
+  for (let i = 0; i < steps; i++) {
+    const last = pointers[pointers.length - 1];
+    const r = random();
+    if (!last || r < 0.5) {
+      pointers.push(anywhere());
+    } else if (r < 0.85) {
+      pointers.push(last.add(Vec2(random() - 0.5, random() - 0.5).mul(20)));
+    } else {
+      pointers.push(last);
+    }
+  }
+  return ["center", ...pointers];
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { Draggable } from "./draggable";
+import {
+  recordDragHeadless,
+  replayDragHeadless,
+  sampleDragHeadless,
+} from "./headless";
+import { Vec2 } from "./math/vec2";
+import { translate } from "./svgx/helpers";
+import { LayeredSvgx } from "./svgx/layers";
+import { localToGlobal } from "./svgx/transform";
+
+type State = { zone: "a" | "b" };
+
+const ZONES = { a: 0, b: 100 };
+
+// A ball dropped into one of two zones, which (along with the ball)
+// light up while the ball is over them.
+const zones: Draggable<State> = ({ state, d, dragInfo }) => (
+  <g>
+    {(["a", "b"] as const).map((zone) => (
+      <rect
+        id={`zone-${zone}`}
+        key={zone}
+        transform={translate(ZONES[zone], 0)}
+        width={50}
+        height={50}
+        fill={dragInfo?.dropTargetId === `zone-${zone}` ? "yellow" : "white"}
+      />
+    ))}
+    <circle
+      id="ball"
+      transform={translate(ZONES[state.zone] + 25, 25)}
+      r={10}
+      fill={dragInfo?.dropTargetId ? "orange" : "black"}
+      dragologyOnDrag={() =>
+        d
+          .closest([
+            d.dropTarget("zone-a", { zone: "a" }),
+            d.dropTarget("zone-b", { zone: "b" }),
+          ])
+          .withFloating()
+      }
+    />
+  </g>
+);
+
+const fill = (layered: LayeredSvgx, id: string) =>
+  layered.byId.get(id)?.element.props.fill;
+
+const initial: State = { zone: "a" };
+
+const recording = recordDragHeadless(zones, initial, "ball", [
+  "center",
+  [75, 25],
+  [115, 30],
+  [115, 30],
+]);
+
+describe("dragInfo", () => {
+  it("is drawn over what's displayed during a drag", () => {
+    // One sample per recorded frame (they're 16ms apart).
+    const frames = sampleDragHeadless(zones, recording, { fps: 1000 / 16 });
+    const fills = frames.map((f) => [
+      fill(f.layered, "zone-a"),
+      fill(f.layered, "zone-b"),
+    ]);
+    expect(fills[0]).toEqual(["yellow", "white"]);
+    // Between the zones, neither is hit.
+    expect(fills[1]).toEqual(["white", "white"]);
+    expect(fills[2]).toEqual(["white", "yellow"]);
+    // Once dropped, there's no drag to describe.
+    expect(fills[fills.length - 1]).toEqual(["white", "white"]);
+  });
+
+  it("keeps changed layers where the preview has them", () => {
+    const frames = sampleDragHeadless(zones, recording);
+    const over = frames.find((f) => fill(f.layered, "zone-b") === "yellow")!;
+    const ball = over.layered.byId.get("ball")!.element;
+    expect(ball.props.fill).toBe("orange");
+    // Floating at the pointer, not in zone b's center (125, 25).
+    expect(localToGlobal(ball.props.transform, Vec2(0)).arr()).toEqual([
+      115, 30,
+    ]);
+  });
+
+  it("doesn't feed into previews", () => {
+    const { results } = replayDragHeadless(zones, recording);
+    for (const result of results) {
+      expect(fill(result.preview, "zone-a")).toBe("white");
+      expect(fill(result.preview, "zone-b")).toBe("white");
+      expect(fill(result.preview, "ball")).toBe("black");
+    }
+    expect(results.at(-1)?.dropState).toEqual({ zone: "b" });
+  });
+});
@@ -0,0 +1,192 @@
+import _ from "lodash";
+import React from "react";
+import { DragResult } from "./DragBehavior";
+import { DragSpecData } from "./DragSpec";
+import {
+  activeChildSpec,
+  getTraceInfo,
+  tracedChildSpecs,
+} from "./DragSpecTraceInfo";
+import { DragInfo, Draggable } from "./draggable";
+import { renderDraggableInert } from "./renderDraggable";
+import { Svgx, isValidSvgx } from "./svgx";
+import { Layer, LayeredSvgx } from "./svgx/layers";
+
+/**
+ * `dragInfo` describes a drag's previews, so it can't be used to make
+ * them: behaviors render every candidate state without it. Instead,
+ * whatever's displayed during a drag gets the layers that dragInfo
+ * changes drawn over it. We find those by rendering the drop state
+ * with and without dragInfo, and comparing.
+ */
+
+export function dragInfoFromResult<T extends object>(
+  startState: T,
+  result: DragResult<T>,
+): DragInfo<T> {
+  return {
+    startState,
+    dropState: result.dropState,
+    activePath: result.activePath,
+    dropTargetId: hitDropTargetId(result.tracedSpec),
+  };
+}
+
+/**
+ * The drop target the pointer is inside, on the active branch of a
+ * traced spec. (Inactive branches are traced too, e.g. every option
+ * of a `d.closest`, so their targets may also report `inside`.)
+ */
+function hitDropTargetId(spec: DragSpecData<any>): string | null {
+  if (spec.type === "drop-target") {
+    return getTraceInfo(spec)?.inside ? spec.targetId : null;
+  }
+  const active = activeChildSpec(spec);
+  if (active) return hitDropTargetId(active);
+  // No one active child, so any of them
+  for (const child of tracedChildSpecs(spec)) {
+    const id = hitDropTargetId(child);
+    if (id !== null) return id;
+  }
+  return null;
+}
+
+/** The layers dragInfo adds, changes and removes in a render. */
+type DragInfoChanges = {
+  changed: Map<string, Layer>;
+  removed: string[];
+};
+
+/**
+ * Last computed changes, per draggable. The drop state (and so on)
+ * usually stays put for many frames at a time, so this saves
+ * re-rendering it every frame.
+ */
+const changesCache = new WeakMap<
+  Draggable<any>,
+  {
+    draggedId: string | null;
+    info: DragInfo<any>;
+    changes: DragInfoChanges | null;
+  }
+>();
+
+/**
+ * Draw the layers dragInfo changes over `displayed`. Changed layers
+ * keep the transform they're displayed with, so affordances on
+ * elements that are moving (like the dragged one) don't jump.
+ */
+export function withDragInfoLayers<T extends object>(
+  displayed: LayeredSvgx,
+  draggable: Draggable<T>,
+  draggedId: string | null,
+  info: DragInfo<T>,
+): LayeredSvgx {
+  let cached = changesCache.get(draggable);
+  if (
+    !cached ||
+    cached.draggedId !== draggedId ||
+    cached.info.startState !== info.startState ||
+    cached.info.dropState !== info.dropState ||
+    cached.info.activePath !== info.activePath ||
+    cached.info.dropTargetId !== info.dropTargetId
+  ) {
+    cached = {
+      draggedId,
+      info,
+      changes: dragInfoChanges(draggable, draggedId, info),
+    };
+    changesCache.set(draggable, cached);
+  }
+  const { changes } = cached;
+  if (!changes) return displayed;
+
+  const byId = new Map(displayed.byId);
+  for (const id of changes.removed) byId.delete(id);
+  for (const [id, layer] of changes.changed) {
+    const current = displayed.byId.get(id);
+    byId.set(
+      id,
+      current
+        ? {
+            element: React.cloneElement(layer.element, {
+              transform: current.element.props.transform,
+            }),
+            stackingPath: current.stackingPath,
+          }
+        : layer,
+    );
+  }
+  return { byId, descendents: displayed.descendents };
+}
+
+/**
+ * Null if the draggable doesn't read dragInfo (the usual case), so
+ * there's nothing to compare.
+ */
+function dragInfoChanges<T extends object>(
+  draggable: Draggable<T>,
+  draggedId: string | null,
+  info: DragInfo<T>,
+): DragInfoChanges | null {
+  let read = false;
+  const reading: Draggable<T> = (props) => {
+    Object.defineProperty(props, "dragInfo", {
+      get: () => {
+        read = true;
+        return info;
+      },
+    });
+    return draggable(props);
+  };
+  const withInfo = renderDraggableInert(
+    reading,
+    info.dropState,
+    draggedId,
+    false,
+  );
+  if (!read) return null;
+  const without = renderDraggableInert(
+    draggable,
+    info.dropState,
+    draggedId,
+    false,
+  );
+
+  const changes: DragInfoChanges = { changed: new Map(), removed: [] };
+  for (const [id, layer] of withInfo.byId) {
+    const before = without.byId.get(id);
+    if (!before || !sameSvgx(before.element, layer.element)) {
+      changes.changed.set(id, layer);
+    }
+  }
+  for (const id of without.byId.keys()) {
+    if (!withInfo.byId.has(id)) changes.removed.push(id);
+  }
+  return changes;
+}
+
+/**
+ * Whether two renders of an element are the same, ignoring function
+ * props (which are fresh closures on every render).
+ */
+function sameSvgx(a: Svgx, b: Svgx): boolean {
+  if (a.type !== b.type || a.key !== b.key) return false;
+  const { children: aChildren, ...aProps } = a.props;
+  const { children: bChildren, ...bProps } = b.props;
+  const propsEqual = _.isEqualWith(aProps, bProps, (x, y) =>
+    typeof x === "function" && typeof y === "function" ? true : undefined,
+  );
+  if (!propsEqual) return false;
+  const aList = React.Children.toArray(aChildren);
+  const bList = React.Children.toArray(bChildren);
+  return (
+    aList.length === bList.length &&
+    aList.every((child, i) => {
+      const other = bList[i];
+      return isValidSvgx(child) && isValidSvgx(other)
+        ? sameSvgx(child, other)
+        : child === other;
+    })
+  );
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { DragFrame } from "./DragBehavior";
+import {
+  parseDragRecording,
+  recordFrame,
+  replayFrame,
+  startDragRecording,
+} from "./dragRecording";
+import { Vec2 } from "./math/vec2";
+
+describe("recordFrame", () => {
+  it("round-trips frames through JSON", () => {
+    const frame: DragFrame = {
+      pointer: Vec2(1, 2),
+      velocity: Vec2(0.5, -0.25),
+      dropping: true,
+      gesture: {
+        pointer2: Vec2(3, 4),
+        anchorPos2: Vec2(5, 6),
+      },
+    };
+    const json = JSON.stringify(recordFrame(frame));
+    expect(replayFrame(JSON.parse(json))).toEqual(frame);
+  });
+
+  it("leaves out what the frame doesn't have", () => {
+    expect(recordFrame({ pointer: Vec2(1, 2) })).toEqual({ pointer: [1, 2] });
+  });
+});
+
+describe("parseDragRecording", () => {
+  it("reads back a saved recording", () => {
+    const recording = startDragRecording("A", Vec2(10, 20), { n: 1 });
+    expect(parseDragRecording(JSON.stringify(recording))).toEqual(recording);
+  });
+
+  it("rejects things that aren't recordings", () => {
+    expect(() => parseDragRecording("{}")).toThrow(/Not a drag recording/);
+    const future = { ...startDragRecording("A", Vec2(0), {}), version: 2 };
+    expect(() => parseDragRecording(JSON.stringify(future))).toThrow(/version/);
+  });
+});
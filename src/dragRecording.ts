@@ -0,0 +1,145 @@
+import _ from "lodash";
+import { DragFrame, DragResult } from "./DragBehavior";
+import { Vec2 } from "./math/vec2";
+import { assert } from "./utils/assert";
+
+/**
+ * A recording of a real drag, as plain JSON-able data: which element
+ * was dragged from which state, and every frame the drag's behavior
+ * saw (with what it said back). Recordings can be replayed in a
+ * DraggableRenderer (see its `replay` prop) or headlessly, as a
+ * regression test (see `replayDragHeadless`).
+ *
+ * Only single-pointer drags of elements with ids are recorded, and
+ * states must survive a round trip through JSON.
+ */
+export type DragRecording<T extends object> = {
+  format: typeof RECORDING_FORMAT;
+  version: typeof RECORDING_VERSION;
+  draggedId: string;
+  /** Where the drag grabbed the element, in its local coordinates. */
+  anchorPos: Point;
+  startState: T;
+  frames: RecordedFrame<T>[];
+  /** The state dropped into, or null if the drag was cancelled. */
+  dropState: T | null;
+};
+
+export type RecordedFrame<T extends object> = {
+  /** Milliseconds since the drag started. */
+  time: number;
+  frame: RecordedDragFrame;
+  activePath: string;
+  dropState: T;
+};
+
+type Point = [number, number];
+
+/** A DragFrame, with its vectors as [x, y] pairs. */
+export type RecordedDragFrame = {
+  pointer: Point;
+  velocity?: Point;
+  dropping?: true;
+  gesture?: {
+    pointer2: Point;
+    anchorPos2: Point;
+  };
+};
+
+const RECORDING_FORMAT = "dragology-recording";
+const RECORDING_VERSION = 1;
+
+export function startDragRecording<T extends object>(
+  draggedId: string,
+  anchorPos: Vec2,
+  startState: T,
+): DragRecording<T> {
+  return {
+    format: RECORDING_FORMAT,
+    version: RECORDING_VERSION,
+    draggedId,
+    anchorPos: anchorPos.arr(),
+    startState: toJSONValue(startState),
+    frames: [],
+    dropState: null,
+  };
+}
+
+/**
+ * Add a frame (and the result the drag showed for it) to a
+ * recording in progress. A dropping frame finishes the recording.
+ */
+export function recordDragFrame<T extends object>(
+  recording: DragRecording<T>,
+  time: number,
+  frame: DragFrame,
+  result: DragResult<T>,
+): void {
+  const dropState = toJSONValue(result.dropState);
+  recording.frames.push({
+    time,
+    frame: recordFrame(frame),
+    activePath: result.activePath,
+    dropState,
+  });
+  if (frame.dropping) recording.dropState = dropState;
+}
+
+export function recordFrame(frame: DragFrame): RecordedDragFrame {
+  const { pointer, velocity, dropping, gesture } = frame;
+  return {
+    pointer: pointer.arr(),
+    ...(velocity && { velocity: velocity.arr() }),
+    ...(dropping && { dropping }),
+    ...(gesture && {
+      gesture: {
+        pointer2: gesture.pointer2.arr(),
+        anchorPos2: gesture.anchorPos2.arr(),
+      },
+    }),
+  };
+}
+
+export function replayFrame(recorded: RecordedDragFrame): DragFrame {
+  const { pointer, velocity, dropping, gesture } = recorded;
+  return {
+    pointer: Vec2(pointer),
+    ...(velocity && { velocity: Vec2(velocity) }),
+    ...(dropping && { dropping }),
+    ...(gesture && {
+      gesture: {
+        pointer2: Vec2(gesture.pointer2),
+        anchorPos2: Vec2(gesture.anchorPos2),
+      },
+    }),
+  };
+}
+
+/**
+ * Read a recording saved with `JSON.stringify`. (We can't check that
+ * the states are actually `T`s.)
+ */
+export function parseDragRecording<T extends object>(
+  json: string,
+): DragRecording<T> {
+  const recording = JSON.parse(json);
+  assert(
+    _.isObject(recording) &&
+      "format" in recording &&
+      recording.format === RECORDING_FORMAT,
+    "Not a drag recording",
+  );
+  assert(
+    "version" in recording && recording.version === RECORDING_VERSION,
+    `Unsupported drag recording version (expected ${RECORDING_VERSION})`,
+  );
+  return recording as DragRecording<T>;
+}
+
+/**
+ * States are stored (and compared) the way they come out of JSON, so
+ * that a fresh recording compares the same as a saved one.
+ */
+export function toJSONValue<V>(value: V): V {
+  return JSON.parse(JSON.stringify(value));
+}
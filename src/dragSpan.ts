@@ -0,0 +1,180 @@
+import _ from "lodash";
+import {
+  DragBehavior,
+  DragFrame,
+  DragInitContext,
+  DragResult,
+  dragSpecToBehavior,
+} from "./DragBehavior";
+import { DragSpec } from "./DragSpec";
+import { Clock } from "./clock";
+import { Draggable, getOnDragCallbackOnElement } from "./draggable";
+import { Vec2 } from "./math/vec2";
+import { renderDraggableInertUnlayered } from "./renderDraggable";
+import { FindElementResult, findElement } from "./svgx";
+import { findByPath, getPath } from "./svgx/path";
+import { localToGlobal } from "./svgx/transform";
+import { assert } from "./utils/assert";
+
+// Drag spans, independent of React & the DOM. (See the terminology
+// notes in DraggableRenderer.) These are shared by DraggableRenderer
+// and headless simulation.
+
+/**
+ * How a drag is being driven: by a real pointer, or by a synthetic
+ * pointer moved around with arrow keys.
+ */
+export type DragInputMode = "pointer" | "keyboard";
+
+export type DragInput = {
+  inputMode: DragInputMode;
+  /** null for keyboard & simulated drags */
+  pointerId: number | null;
+};
+
+/**
+ * Everything about a single drag span, independent of what's being
+ * displayed.
+ */
+export type DragSpan<T extends object> = DragInput & {
+  startState: T; // TODO: this is of suspect utility
+  behavior: DragBehavior<T>;
+  behaviorCtx: DragInitContext<T>;
+  result: DragResult<T>;
+  /** The frame the span started on. */
+  startFrame: DragFrame;
+  /**
+   * We save the drag spec so we can generate fresh behaviors for
+   * the drop-zone visualization. It's named in a scary way to
+   * remind you that it's a niche use case.
+   */
+  specForDropZoneVis: DragSpec<T>;
+};
+
+/**
+ * If the behavior asked to chain, restart the span from the new
+ * state. Returns null if there's no chaining to do.
+ */
+export function resolveChainNows<T extends object>(
+  span: DragSpan<T>,
+  frame: DragFrame,
+  result: DragResult<T>,
+): DragSpan<T> | null {
+  if (!result.chainNow || _.isEqual(result.dropState, span.startState))
+    return null;
+
+  const newState = result.dropState;
+  const newDraggedId = result.chainNow.draggedId ?? span.behaviorCtx.draggedId;
+  const content = renderDraggableInertUnlayered(
+    span.behaviorCtx.draggable,
+    newState,
+    newDraggedId,
+    true,
+  );
+  const found = newDraggedId
+    ? findElement(content, (el) => el.props.id === newDraggedId)
+    : findByPath(span.behaviorCtx.draggedPath, content);
+
+  assert(
+    !!found,
+    `Chained drag must have a valid dragged element; couldn't find element with id ${newDraggedId}`,
+  );
+
+  const newDragSpec =
+    result.chainNow.followSpec ??
+    getOnDragCallbackOnElement<T>(found.element)?.();
+  if (!newDragSpec) return null;
+
+  const newDraggedPath = getPath(found.element);
+  assert(!!newDraggedPath, "Chained element must have a path");
+
+  const anchorPos = span.behaviorCtx.anchorPos;
+
+  return initDragSpan(
+    newDragSpec,
+    {
+      ...span.behaviorCtx,
+      draggedPath: newDraggedPath,
+      draggedId: newDraggedId,
+      anchorPos,
+      startState: newState,
+    },
+    frame,
+    span,
+  );
+}
+
+export function initDragSpan<T extends object>(
+  spec: DragSpec<T>,
+  behaviorCtx: DragInitContext<T>,
+  frame: DragFrame,
+  { inputMode, pointerId }: DragInput,
+): DragSpan<T> {
+  const behavior = dragSpecToBehavior(spec, behaviorCtx);
+  const result = behavior(frame);
+
+  // This code used to check for chaining, via:
+  //
+  // return resolveChainNows(span, frame, result);
+  //
+  // That was (maybe?) important because `switchToStateAndFollow`
+  // used chaining, and we wanted the switch to occur without delay.
+  // But now switchToStateAndFollow does its own thing. And we want
+  // to support "chain on every frame" for things like
+  // chain-of-links, which suggests that you only chain once per
+  // frame. So:
+
+  return {
+    inputMode,
+    pointerId,
+    startState: behaviorCtx.startState,
+    behavior,
+    specForDropZoneVis: spec,
+    behaviorCtx,
+    result,
+    startFrame: frame,
+  };
+}
+
+/**
+ * Start a drag programmatically: find the element with id
+ * `draggedId`, and set up the context its drag runs in. Also
+ * returns where the pointer is (in the diagram's coordinates) given
+ * the chosen anchor position.
+ */
+export function findDragStart<T extends object>(
+  draggable: Draggable<T>,
+  state: T,
+  draggedId: string,
+  getAnchorPos: (found: FindElementResult) => Vec2,
+  clock: Clock,
+) {
+  const content = renderDraggableInertUnlayered(
+    draggable,
+    state,
+    draggedId,
+    false,
+  );
+  const found = findElement(content, (el) => el.props.id === draggedId);
+  assert(!!found, `Can't start drag: no element with id "${draggedId}"`);
+  const onDrag = getOnDragCallbackOnElement<T>(found.element);
+  assert(!!onDrag, `Can't start drag: element "${draggedId}" isn't draggable`);
+  const draggedPath = getPath(found.element);
+  assert(!!draggedPath, "Dragged element must have a path");
+
+  const anchorPos = getAnchorPos(found);
+  const behaviorCtx: DragInitContext<T> = {
+    draggable,
+    draggedPath,
+    draggedId,
+    anchorPos,
+    startState: state,
+    debug: { varyVisualizer: false },
+    clock,
+  };
+  return {
+    spec: onDrag(),
+    behaviorCtx,
+    startPointer: localToGlobal(found.accumulatedTransform, anchorPos),
+  };
+}
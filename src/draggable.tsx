@@ -22,6 +22,15 @@ export type DraggableProps<T extends object> = {
    * extra stuff as an optimization.
    */
   isTracking: boolean;
+  /**
+   * What's happening in the drag in progress, for drawing affordances
+   * like highlighting the column a card will land in. Null when
+   * nothing is being dragged, and in the renders drag behaviors make
+   * of candidate states – so a drag's previews never depend on it.
+   * (Instead, while dragging, the layers it changes are drawn over
+   * the preview.)
+   */
+  dragInfo: DragInfo<T> | null;
   /**
    * Embed a sub-draggable at a given path into the state. The
    * sub-draggable operates on the substate type and its drag specs
@@ -33,13 +42,33 @@ export type DraggableProps<T extends object> = {
   ): Svgx;
 };
 
+/**
+ * What a draggable is told about the drag in progress (see
+ * `DraggableProps.dragInfo`).
+ */
+export type DragInfo<T extends object> = {
+  /**
+   * The state the drag started from (or, after it chained, restarted
+   * from). Cancelling the drag goes back to it.
+   */
+  startState: T;
+  /** The state the drag would drop into if it were released now. */
+  dropState: T;
+  /** Which branch of the drag spec is active (see `DragResult`). */
+  activePath: string;
+  /** The `d.dropTarget` the pointer is inside, if any. */
+  dropTargetId: string | null;
+};
+
 export function makeDraggableProps<T extends object>(fields: {
   state: T;
   draggedId: string | null;
   setState: SetState<T>;
   isTracking: boolean;
+  dragInfo?: DragInfo<T> | null;
 }): DraggableProps<T> {
   const props: DraggableProps<T> = {
+    dragInfo: null,
     ...fields,
     d: new DragSpecBuilder(fields.state),
     embed(draggable, path) {
@@ -96,6 +125,20 @@ function embedImpl<T extends object, const P extends PathIn<T, any>>(
     },
     isTracking: props.isTracking,
   });
+  // Read lazily, so that embedding doesn't count as reading dragInfo
+  // (see `dragInfoChanges`).
+  Object.defineProperty(subProps, "dragInfo", {
+    get: () => {
+      const info = props.dragInfo;
+      return (
+        info && {
+          ...info,
+          startState: getAtPath(info.startState, path as any),
+          dropState: getAtPath(info.dropState, path as any),
+        }
+      );
+    },
+  });
   const rendered = draggable(subProps);
   return updatePropsDownTree(rendered, (el) => {
     const onDragCallback = getOnDragCallbackOnElement<any>(el);
@@ -0,0 +1,170 @@
+import { produce } from "immer";
+import _ from "lodash";
+import { describe, expect, it } from "vitest";
+import { DragFrame } from "./DragBehavior";
+import { Draggable } from "./draggable";
+import {
+  DragRecording,
+  parseDragRecording,
+  recordDragFrame,
+  startDragRecording,
+} from "./dragRecording";
+import {
+  recordDragHeadless,
+  replayDragHeadless,
+  sampleDragHeadless,
+  simulateDragHeadless,
+} from "./headless";
+import { Vec2 } from "./math/vec2";
+import { translate } from "./svgx/helpers";
+import { LayeredSvgx } from "./svgx/layers";
+import { localToGlobal } from "./svgx/transform";
+
+type State = { perm: string[] };
+
+const TILE = 50;
+
+// Like the "perm" demo: tiles in a row, reordered by dragging.
+const perm: Draggable<State> = ({ state, d }) => (
+  <g>
+    {state.perm.map((p, idx) => (
+      <rect
+        id={p}
+        key={p}
+        transform={translate(idx * TILE, 0)}
+        width={TILE}
+        height={TILE}
+        dragologyOnDrag={() =>
+          d.closest(
+            _.range(state.perm.length).map((i) =>
+              produce(state, (draft) => {
+                draft.perm.splice(draft.perm.indexOf(p), 1);
+                draft.perm.splice(i, 0, p);
+              }),
+            ),
+          )
+        }
+      />
+    ))}
+  </g>
+);
+
+const initial: State = { perm: ["A", "B", "C", "D"] };
+
+describe("simulateDragHeadless", () => {
+  it("reorders by dragging", () => {
+    const { dropState } = simulateDragHeadless(perm, initial, "A", [
+      [25, 25],
+      [80, 25],
+      [130, 25],
+    ]);
+    expect(dropState.perm).toEqual(["B", "C", "A", "D"]);
+  });
+
+  it("reports a result per pointer position", () => {
+    const { results } = simulateDragHeadless(perm, initial, "D", [
+      "center",
+      [175, 25],
+      [25, 25],
+    ]);
+    expect(results.map((r) => r.dropState.perm[0])).toEqual(["A", "A", "D"]);
+    expect(results[0].gap).toBeCloseTo(0);
+    expect(results[2].activePath).not.toBe(results[0].activePath);
+  });
+
+  it("starts where the first pointer is", () => {
+    // Grabbing D by its right edge and moving to x=60 puts its left
+    // edge near 10, closest to the first slot.
+    const { dropState } = simulateDragHeadless(perm, initial, "D", [
+      [199, 25],
+      [60, 25],
+    ]);
+    expect(dropState.perm).toEqual(["D", "A", "B", "C"]);
+  });
+
+  it("complains about elements that aren't there", () => {
+    expect(() => simulateDragHeadless(perm, initial, "Z", ["center"])).toThrow(
+      /no element with id "Z"/,
+    );
+  });
+});
+
+describe("replayDragHeadless", () => {
+  // Record a drag of A along a path (the way DraggableRenderer
+  // would), and save it.
+  const pointers = [Vec2(25, 25), Vec2(80, 25), Vec2(130, 25)];
+  const frames: DragFrame[] = [
+    ...pointers.map((pointer) => ({ pointer })),
+    { pointer: pointers[2], dropping: true },
+  ];
+  const { results, dropResult } = simulateDragHeadless(perm, initial, "A", [
+    pointers[0],
+    pointers[1],
+    pointers[2],
+  ]);
+  const recording = startDragRecording("A", Vec2(25, 25), initial);
+  [...results, dropResult].forEach((result, i) =>
+    recordDragFrame(recording, i * 16, frames[i], result),
+  );
+  const saved = JSON.stringify(recording);
+
+  it("reproduces a recorded drag", () => {
+    const loaded = parseDragRecording<State>(saved);
+    expect(loaded.dropState).toEqual({ perm: ["B", "C", "A", "D"] });
+    const { mismatches } = replayDragHeadless(perm, loaded);
+    expect(mismatches).toEqual([]);
+  });
+
+  it("reports frames that come out differently", () => {
+    // As if the recording was made when the diagram behaved
+    // differently.
+    const tampered: DragRecording<State> = parseDragRecording(saved);
+    tampered.frames[1].dropState = { perm: ["D", "C", "B", "A"] };
+    const { mismatches } = replayDragHeadless(perm, tampered);
+    expect(mismatches.map((m) => [m.frameIndex, m.field])).toEqual([
+      [1, "dropState"],
+    ]);
+  });
+});
+
+describe("recordDragHeadless", () => {
+  it("records a scripted drag", () => {
+    const recording = recordDragHeadless(perm, initial, "A", [
+      [25, 25],
+      [80, 25],
+      [130, 25],
+    ]);
+    expect(recording.dropState).toEqual({ perm: ["B", "C", "A", "D"] });
+    expect(recording.frames.map((f) => f.time)).toEqual([0, 16, 32, 32]);
+    expect(replayDragHeadless(perm, recording).mismatches).toEqual([]);
+  });
+});
+
+describe("sampleDragHeadless", () => {
+  const recording = recordDragHeadless(perm, initial, "A", [
+    [25, 25],
+    [80, 25],
+    [130, 25],
+  ]);
+  const xOf = (layered: LayeredSvgx, id: string) =>
+    localToGlobal(layered.byId.get(id)!.element.props.transform, [0, 0]).x;
+
+  it("samples until the drop settles", () => {
+    const frames = sampleDragHeadless(perm, recording, { fps: 100 });
+    expect(frames[0].time).toBe(0);
+    expect(frames[1].time).toBe(10);
+    const last = frames[frames.length - 1];
+    expect(last.time).toBeGreaterThan(32);
+    // A ends up in the third slot.
+    expect(xOf(last.layered, "A")).toBeCloseTo(2 * TILE);
+  });
+
+  it("springs between previews, like DraggableRenderer", () => {
+    // At 16ms, A's closest slot changes from the first to the second;
+    // it should be on its way there a little later.
+    const frames = sampleDragHeadless(perm, recording, { fps: 100 });
+    const x = xOf(frames.find((f) => f.time === 20)!.layered, "A");
+    expect(x).toBeGreaterThan(0);
+    expect(x).toBeLessThan(TILE);
+  });
+});
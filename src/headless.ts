@@ -0,0 +1,355 @@
+import _ from "lodash";
+import { DragFrame, DragInitContext, DragResult } from "./DragBehavior";
+import { DragSpec } from "./DragSpec";
+import { ManualClock, manualClock } from "./clock";
+import { dragInfoFromResult, withDragInfoLayers } from "./dragInfo";
+import {
+  DragRecording,
+  RecordedFrame,
+  recordDragFrame,
+  replayFrame,
+  startDragRecording,
+  toJSONValue,
+} from "./dragRecording";
+import {
+  DragSpan,
+  findDragStart,
+  initDragSpan,
+  resolveChainNows,
+} from "./dragSpan";
+import { Draggable } from "./draggable";
+import { Vec2, Vec2able } from "./math/vec2";
+import {
+  PointerSample,
+  addPointerSample,
+  estimatePointerVelocity,
+} from "./pointerVelocity";
+import { renderDraggableInert } from "./renderDraggable";
+import {
+  SpringOrigin,
+  makeSpringOrigin,
+  runSpring,
+  springEndsAfter,
+  springExpired,
+  springSnapshot,
+} from "./spring";
+import { boundsCenter, getLocalBounds } from "./svgx/bounds";
+import { LayeredSvgx } from "./svgx/layers";
+import { globalToLocal } from "./svgx/transform";
+import { assert } from "./utils/assert";
+
+/**
+ * Headless drag simulation: run a drag the way DraggableRenderer
+ * would, but without React or a DOM, so drag behavior can be tested
+ * with ordinary assertions.
+ *
+ * ```ts
+ * const { dropState } = simulateDragHeadless(draggable, state, "B", [
+ *   [50, 25],
+ *   [120, 25],
+ * ]);
+ * expect(dropState.perm).toEqual(["A", "C", "B", "D"]);
+ * ```
+ */
+
+export type HeadlessDragOptions = {
+  /**
+   * Milliseconds between pointer positions. Used to estimate the
+   * pointer's velocity (e.g. for `withMomentum`). Default: 16.
+   */
+  frameInterval?: number;
+};
+
+/**
+ * Where the pointer goes during a drag, in the diagram's coordinates.
+ * The first position (or `"center"`, for the center of the dragged
+ * element) is where the drag starts.
+ */
+export type DragPointers = ["center" | Vec2able, ...Vec2able[]];
+
+export type HeadlessDragRun<T extends object> = {
+  /** The behavior's result at each pointer position. */
+  results: DragResult<T>[];
+  /** The result of dropping at the last pointer position. */
+  dropResult: DragResult<T>;
+  dropState: T;
+};
+
+/**
+ * Drag the element with id `draggedId` through a sequence of
+ * pointer positions (in the diagram's coordinates) and drop it at
+ * the last one. The drag starts where the first position is, as if
+ * the pointer went down there; pass `"center"` instead to start at
+ * the center of the element.
+ */
+export function simulateDragHeadless<T extends object>(
+  draggable: Draggable<T>,
+  state: T,
+  draggedId: string,
+  pointers: DragPointers,
+  options: HeadlessDragOptions = {},
+): HeadlessDragRun<T> {
+  const { spec, behaviorCtx, clock, frames } = scriptDrag(
+    draggable,
+    state,
+    draggedId,
+    pointers,
+    options,
+  );
+  const results = runHeadlessFrames(spec, behaviorCtx, clock, frames).map(
+    (f) => f.result,
+  );
+  const dropResult = results.pop()!;
+  return { results, dropResult, dropState: dropResult.dropState };
+}
+
+/**
+ * Like `simulateDragHeadless`, but returns the drag as a
+ * `DragRecording`, e.g. to animate a scripted drag with
+ * `renderAnimatedSvg`.
+ */
+export function recordDragHeadless<T extends object>(
+  draggable: Draggable<T>,
+  state: T,
+  draggedId: string,
+  pointers: DragPointers,
+  options: HeadlessDragOptions = {},
+): DragRecording<T> {
+  const { spec, behaviorCtx, clock, frames } = scriptDrag(
+    draggable,
+    state,
+    draggedId,
+    pointers,
+    options,
+  );
+  const recording = startDragRecording(draggedId, behaviorCtx.anchorPos, state);
+  runHeadlessFrames(spec, behaviorCtx, clock, frames).forEach((f, i) =>
+    recordDragFrame(recording, f.time, frames[i].frame, f.result),
+  );
+  return recording;
+}
+
+/**
+ * Turn a list of pointer positions into the frames of a drag, ending
+ * with a drop at the last position.
+ */
+function scriptDrag<T extends object>(
+  draggable: Draggable<T>,
+  state: T,
+  draggedId: string,
+  pointers: DragPointers,
+  { frameInterval = 16 }: HeadlessDragOptions,
+) {
+  const [first, ...rest] = pointers;
+  const clock = manualClock();
+  const { spec, behaviorCtx, startPointer } = findDragStart(
+    draggable,
+    state,
+    draggedId,
+    (found) => {
+      if (first !== "center") {
+        return globalToLocal(found.accumulatedTransform, Vec2(first));
+      }
+      const localBounds = getLocalBounds(found.element);
+      return localBounds.empty ? Vec2(0) : boundsCenter(localBounds);
+    },
+    clock,
+  );
+
+  const samples: PointerSample[] = [];
+  const frames: TimedFrame[] = [startPointer, ...rest.map((p) => Vec2(p))].map(
+    (pointer, i) => {
+      const time = i * frameInterval;
+      addPointerSample(samples, { pos: pointer, time });
+      const velocity = estimatePointerVelocity(samples, time);
+      return { time, frame: { pointer, velocity } };
+    },
+  );
+  const last = frames[frames.length - 1];
+  frames.push({ ...last, frame: { ...last.frame, dropping: true } });
+  return { spec, behaviorCtx, clock, frames };
+}
+
+export type ReplayMismatch<T extends object> = {
+  frameIndex: number;
+  field: "activePath" | "dropState";
+  recorded: RecordedFrame<T>;
+  replayed: DragResult<T>;
+};
+
+/**
+ * Replay a recorded drag (see `DragRecording`) and compare each
+ * frame's `activePath` and `dropState` with what was recorded. An
+ * empty `mismatches` means the drag behaves the same as it did.
+ */
+export function replayDragHeadless<T extends object>(
+  draggable: Draggable<T>,
+  recording: DragRecording<T>,
+): { results: DragResult<T>[]; mismatches: ReplayMismatch<T>[] } {
+  const results = runRecording(draggable, recording).map((f) => f.result);
+
+  const mismatches: ReplayMismatch<T>[] = [];
+  results.forEach((replayed, frameIndex) => {
+    const recorded = recording.frames[frameIndex];
+    if (replayed.activePath !== recorded.activePath) {
+      mismatches.push({ frameIndex, field: "activePath", recorded, replayed });
+    }
+    if (!_.isEqual(toJSONValue(replayed.dropState), recorded.dropState)) {
+      mismatches.push({ frameIndex, field: "dropState", recorded, replayed });
+    }
+  });
+  return { results, mismatches };
+}
+
+export type DisplayFrame = {
+  /** Milliseconds since the drag started. */
+  time: number;
+  layered: LayeredSvgx;
+};
+
+/**
+ * What a DraggableRenderer would show while a recorded drag is
+ * replayed, every `1000 / fps` ms: the drag's previews (with the
+ * springs between them, and dragInfo's layers), then the spring into
+ * the dropped state (or back to the start state, if the drag was
+ * cancelled), up to when it settles.
+ */
+export function sampleDragHeadless<T extends object>(
+  draggable: Draggable<T>,
+  recording: DragRecording<T>,
+  { fps = 30 }: { fps?: number } = {},
+): DisplayFrame[] {
+  const frames = runRecording(draggable, recording);
+  const dropped = recording.frames.at(-1)?.frame.dropping ?? false;
+  const dragFrames = dropped ? frames.slice(0, -1) : frames;
+  assert(dragFrames.length > 0, "Recording has no frames to sample");
+
+  const end = frames[frames.length - 1];
+  const lastDrag = dragFrames[dragFrames.length - 1];
+  const endOrigin = makeSpringOrigin(end.result.dropTransition, end.time, () =>
+    springSnapshot(lastDrag.springOrigin, end.result.preview, end.time),
+  );
+  const endTarget = renderDraggableInert(
+    draggable,
+    dropped ? end.result.dropState : recording.startState,
+    null,
+    false,
+  );
+  const settledAt =
+    end.time + (endOrigin ? springEndsAfter(endOrigin, endTarget) : 0);
+
+  const displayAt = (time: number): LayeredSvgx => {
+    if (time >= end.time) return runSpring(endOrigin, endTarget, time);
+    const f = _.findLast(dragFrames, (f) => f.time <= time) ?? dragFrames[0];
+    return withDragInfoLayers(
+      runSpring(f.springOrigin, f.result.preview, time),
+      draggable,
+      f.draggedId,
+      dragInfoFromResult(f.startState, f.result),
+    );
+  };
+  const times = _.range(0, settledAt, 1000 / fps);
+  if (times[times.length - 1] !== settledAt) times.push(settledAt);
+  return times.map((time) => ({ time, layered: displayAt(time) }));
+}
+
+type TimedFrame = { time: number; frame: DragFrame };
+
+type HeadlessFrame<T extends object> = {
+  time: number;
+  result: DragResult<T>;
+  /** The current span's start state & dragged id (for dragInfo). */
+  startState: T;
+  draggedId: string | null;
+  /** The spring DraggableRenderer would be running after this frame. */
+  springOrigin: SpringOrigin | null;
+};
+
+function runRecording<T extends object>(
+  draggable: Draggable<T>,
+  recording: DragRecording<T>,
+): HeadlessFrame<T>[] {
+  const clock = manualClock();
+  const { spec, behaviorCtx } = findDragStart(
+    draggable,
+    recording.startState,
+    recording.draggedId,
+    () => Vec2(recording.anchorPos),
+    clock,
+  );
+  return runHeadlessFrames(
+    spec,
+    behaviorCtx,
+    clock,
+    recording.frames.map((f) => ({
+      time: f.time,
+      frame: replayFrame(f.frame),
+    })),
+  );
+}
+
+/**
+ * Run frames through a drag like DraggableRenderer does: the first
+ * frame starts the drag, later ones may chain, and a dropping frame
+ * ends it. The clock (which the drag's behaviors see) is set to each
+ * frame's time. Springs (on chains and activePath changes) are
+ * tracked the way DraggableRenderer tracks them.
+ */
+function runHeadlessFrames<T extends object>(
+  spec: DragSpec<T>,
+  behaviorCtx: DragInitContext<T>,
+  clock: ManualClock,
+  frames: TimedFrame[],
+): HeadlessFrame<T>[] {
+  let span: DragSpan<T> | null = null;
+  let springOrigin: SpringOrigin | null = null;
+  return frames.map(({ time, frame }) => {
+    clock.set(time);
+    if (!span) {
+      span = initDragSpan(spec, behaviorCtx, frame, {
+        inputMode: "pointer",
+        pointerId: null,
+      });
+      return headlessFrame(time, span, span.result, springOrigin);
+    }
+    const result = span.behavior(frame);
+    if (frame.dropping) return headlessFrame(time, span, result, springOrigin);
+
+    const prev: DragSpan<T> = span;
+    const current = springOrigin;
+    const chained = resolveChainNows(prev, frame, result);
+    if (chained) {
+      springOrigin = makeSpringOrigin(result.chainNow!.transition, time, () =>
+        springSnapshot(current, prev.result.preview, time),
+      );
+      span = chained;
+    } else {
+      if (result.activePath !== prev.result.activePath) {
+        springOrigin = makeSpringOrigin(result.activePathTransition, time, () =>
+          springSnapshot(current, prev.result.preview, time),
+        );
+      }
+      span = { ...prev, result };
+    }
+    const target = span.result.preview;
+    if (springOrigin && springExpired(springOrigin, time, () => target)) {
+      springOrigin = null;
+    }
+    return headlessFrame(time, span, span.result, springOrigin);
+  });
+}
+
+function headlessFrame<T extends object>(
+  time: number,
+  span: DragSpan<T>,
+  result: DragResult<T>,
+  springOrigin: SpringOrigin | null,
+): HeadlessFrame<T> {
+  return {
+    time,
+    result,
+    startState: span.startState,
+    draggedId: span.behaviorCtx.draggedId,
+    springOrigin,
+  };
+}
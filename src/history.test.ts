@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  historyKeyAction,
+  initHistory,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+} from "./history";
+
+describe("history", () => {
+  it("undoes and redoes, animating with the recorded transitions", () => {
+    let h = initHistory("a");
+    h = recordHistory(h, "b", "300ms elastic-out");
+    h = recordHistory(h, "c", false);
+
+    h = undoHistory(h);
+    expect(h.present.state).toBe("b");
+    expect(h.transition).toBe(false);
+
+    h = undoHistory(h);
+    expect(h.present.state).toBe("a");
+    expect(h.transition).toBe("300ms elastic-out");
+
+    h = redoHistory(h);
+    expect(h.present.state).toBe("b");
+    expect(h.transition).toBe("300ms elastic-out");
+  });
+
+  it("does nothing past either end", () => {
+    const h = initHistory("a");
+    expect(undoHistory(h)).toBe(h);
+    expect(redoHistory(h)).toBe(h);
+  });
+
+  it("forgets the future when recording", () => {
+    let h = initHistory("a");
+    h = recordHistory(h, "b", true);
+    h = undoHistory(h);
+    h = recordHistory(h, "c", true);
+    expect(h.future).toEqual([]);
+    expect(h.past.map((e) => e.state)).toEqual(["a"]);
+  });
+
+  it("ignores no-op changes", () => {
+    const h = recordHistory(initHistory("a"), "b", true);
+    expect(recordHistory(h, "b", true)).toBe(h);
+  });
+
+  it("keeps at most `limit` steps", () => {
+    let h = initHistory(0);
+    for (let i = 1; i <= 5; i++) h = recordHistory(h, i, true, 3);
+    expect(h.past.map((e) => e.state)).toEqual([2, 3, 4]);
+
+    const none = recordHistory(initHistory(0), 1, true, 0);
+    expect(none.past).toEqual([]);
+  });
+});
+
+describe("historyKeyAction", () => {
+  const key = (key: string, mods: Partial<KeyboardEvent> = {}) => ({
+    key,
+    ctrlKey: false,
+    metaKey: false,
+    shiftKey: false,
+    altKey: false,
+    ...mods,
+  });
+
+  it("recognizes undo and redo on Ctrl or Cmd", () => {
+    expect(historyKeyAction(key("z", { ctrlKey: true }))).toBe("undo");
+    expect(historyKeyAction(key("z", { metaKey: true }))).toBe("undo");
+    expect(historyKeyAction(key("Z", { metaKey: true, shiftKey: true }))).toBe(
+      "redo",
+    );
+  });
+
+  it("ignores other keys", () => {
+    expect(historyKeyAction(key("z"))).toBeNull();
+    expect(historyKeyAction(key("y", { ctrlKey: true }))).toBeNull();
+    const ctrlAltZ = key("z", { ctrlKey: true, altKey: true });
+    expect(historyKeyAction(ctrlAltZ)).toBeNull();
+  });
+});
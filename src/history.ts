@@ -0,0 +1,102 @@
+import { TransitionLike } from "./transition";
+
+/**
+ * A bounded undo/redo stack of diagram states. Each entry remembers
+ * the transition that produced it (a drop transition, or the one
+ * passed to setState), so undoing and redoing can animate the same
+ * way.
+ *
+ * These are plain functions on immutable values; see
+ * `useDraggableHistory` for the React side.
+ */
+export type DraggableHistory<T> = {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  future: HistoryEntry<T>[];
+  /** How to animate into `present` from wherever we just were. */
+  transition: TransitionLike;
+};
+
+export type HistoryEntry<T> = {
+  state: T;
+  transition: TransitionLike;
+};
+
+export const defaultHistoryLimit = 100;
+
+export function initHistory<T>(state: T): DraggableHistory<T> {
+  return {
+    past: [],
+    present: { state, transition: true },
+    future: [],
+    transition: true,
+  };
+}
+
+/**
+ * Make `state` the present, remembering the old present for undo (at
+ * most `limit` entries) and forgetting anything that could have been
+ * redone.
+ */
+export function recordHistory<T>(
+  history: DraggableHistory<T>,
+  state: T,
+  transition: TransitionLike,
+  limit = defaultHistoryLimit,
+): DraggableHistory<T> {
+  if (state === history.present.state) return history;
+  return {
+    past: [...history.past, history.present].slice(
+      Math.max(history.past.length + 1 - limit, 0),
+    ),
+    present: { state, transition },
+    future: [],
+    transition,
+  };
+}
+
+/**
+ * Step back to the previous state. Animates with the same transition
+ * that produced the state we're leaving.
+ */
+export function undoHistory<T>(
+  history: DraggableHistory<T>,
+): DraggableHistory<T> {
+  const previous = history.past.at(-1);
+  if (!previous) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: previous,
+    future: [history.present, ...history.future],
+    transition: history.present.transition,
+  };
+}
+
+export function redoHistory<T>(
+  history: DraggableHistory<T>,
+): DraggableHistory<T> {
+  const [next, ...future] = history.future;
+  if (!next) return history;
+  return {
+    past: [...history.past, history.present],
+    present: next,
+    future,
+    transition: next.transition,
+  };
+}
+
+/**
+ * Recognize the undo (Ctrl/Cmd+Z) and redo (Ctrl/Cmd+Shift+Z)
+ * shortcuts.
+ */
+export function historyKeyAction(e: {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+}): "undo" | "redo" | null {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return null;
+  if (e.key.toLowerCase() !== "z") return null;
+  return e.shiftKey ? "redo" : "undo";
+}
@@ -1,5 +1,6 @@
 import "react";
 import { DragSpecBrand } from "./DragSpec";
+import { TransitionLike } from "./transition";
 
 declare module "react" {
   interface SVGAttributes<T> {
@@ -16,7 +17,13 @@ declare module "react" {
     dragologyOnDrag?: (() => DragSpecBrand) | false | null | undefined;
 
     dragologyZIndex?: number | string | false | null;
-    dragologyTransition?: boolean;
+    /**
+     * How this element animates when the diagram springs from one
+     * display to another. `false` opts out (it tracks its target
+     * immediately); anything else overrides the transition for this
+     * element alone, e.g. `"600ms bounce-out"`.
+     */
+    dragologyTransition?: TransitionLike;
     dragologyEmergeFrom?: string;
     dragologyEmergeMode?: "clone" | "scale";
     dragologyOpaque?: boolean;
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { DragSpecData } from "./DragSpec";
+import { setTraceInfo } from "./DragSpecTraceInfo";
+import { collectTargetPositions, nextKeyboardPointer } from "./keyboardDrag";
+import { Vec2 } from "./math/vec2";
+import { LayeredSvgx } from "./svgx/layers";
+
+const emptyLayered: LayeredSvgx = { byId: new Map(), descendents: null };
+
+describe("nextKeyboardPointer", () => {
+  const targets = [Vec2(0, 0), Vec2(50, 0), Vec2(100, 0), Vec2(50, 40)];
+
+  it("jumps to the nearest target in the arrow's direction", () => {
+    const next = nextKeyboardPointer(Vec2(0, 0), Vec2(1, 0), targets, {
+      step: 10,
+      snap: true,
+    });
+    expect(next).toEqual(Vec2(50, 0));
+  });
+
+  it("ignores targets outside the 45° cone", () => {
+    const next = nextKeyboardPointer(Vec2(50, 0), Vec2(0, 1), targets, {
+      step: 10,
+      snap: true,
+    });
+    expect(next).toEqual(Vec2(50, 40));
+  });
+
+  it("nudges by the step when there's no target that way", () => {
+    const next = nextKeyboardPointer(Vec2(0, 0), Vec2(-1, 0), targets, {
+      step: 10,
+      snap: true,
+    });
+    expect(next).toEqual(Vec2(-10, 0));
+  });
+
+  it("nudges without snapping when snap is off", () => {
+    const next = nextKeyboardPointer(Vec2(0, 0), Vec2(1, 0), targets, {
+      step: 1,
+      snap: false,
+    });
+    expect(next).toEqual(Vec2(1, 0));
+  });
+});
+
+describe("collectTargetPositions", () => {
+  it("finds positions from between and fixed nodes, through wrappers", () => {
+    const between = setTraceInfo(
+      { type: "between", specs: [] } as DragSpecData<object>,
+      {
+        renderedStates: [
+          { layered: emptyLayered, position: Vec2(1, 2) },
+          { layered: emptyLayered, position: Vec2(3, 4) },
+        ],
+        closestIndex: 0,
+        outputPreview: emptyLayered,
+        delaunayTriangles: [],
+        projectedPoint: Vec2(0),
+        weights: new Map(),
+      },
+    );
+    const fixed = setTraceInfo(
+      { type: "fixed", state: {} } as DragSpecData<object>,
+      { outputPreview: emptyLayered, position: Vec2(5, 6) },
+    );
+    const spec: DragSpecData<object> = {
+      type: "with-drop-transition",
+      inner: {
+        type: "closest",
+        specs: [between, fixed],
+        stickiness: 0,
+      },
+      transition: false,
+    };
+    expect(collectTargetPositions(spec)).toEqual([
+      Vec2(1, 2),
+      Vec2(3, 4),
+      Vec2(5, 6),
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { DragSpecData } from "./DragSpec";
+import { getTraceInfo, tracedChildSpecs } from "./DragSpecTraceInfo";
+import { Vec2 } from "./math/vec2";
+import { boundsCenter } from "./svgx/bounds";
+
+/**
+ * Keyboard dragging works by moving a synthetic pointer around and
+ * feeding it to the drag behavior, just like a real pointer. Arrow
+ * keys jump the pointer to the nearest discrete target (e.g. a state
+ * in a `d.between`) in the arrow's direction, or nudge it by a fixed
+ * step if there's no such target (e.g. in a `d.vary`).
+ */
+
+const ARROW_DIRECTIONS: Record<string, Vec2> = {
+  ArrowLeft: Vec2(-1, 0),
+  ArrowRight: Vec2(1, 0),
+  ArrowUp: Vec2(0, -1),
+  ArrowDown: Vec2(0, 1),
+};
+
+export function arrowKeyDirection(key: string): Vec2 | null {
+  return ARROW_DIRECTIONS[key] ?? null;
+}
+
+/**
+ * Collect the positions of discrete targets mentioned in a traced
+ * spec tree. These are the places a keyboard drag can step between.
+ */
+export function collectTargetPositions(spec: DragSpecData<any>): Vec2[] {
+  const positions: Vec2[] = [];
+  const visit = (s: DragSpecData<any>) => {
+    if (s.type === "fixed") {
+      const position = getTraceInfo(s)?.position;
+      if (position) positions.push(position);
+    } else if (s.type === "between") {
+      for (const rs of getTraceInfo(s)?.renderedStates ?? []) {
+        positions.push(rs.position);
+      }
+    } else if (s.type === "drop-target") {
+      const globalBounds = getTraceInfo(s)?.globalBounds;
+      if (globalBounds && !globalBounds.empty) {
+        positions.push(boundsCenter(globalBounds));
+      }
+    }
+    for (const child of tracedChildSpecs(s)) visit(child);
+  };
+  visit(spec);
+  return positions;
+}
+
+/**
+ * Where should the synthetic pointer go after an arrow press? If
+ * `snap` is set, jump to the nearest target within 45° of the arrow
+ * direction (ignoring targets we're already on); otherwise (or if
+ * there's no such target) nudge by `step`.
+ */
+export function nextKeyboardPointer(
+  pointer: Vec2,
+  direction: Vec2,
+  targets: Vec2[],
+  { step, snap }: { step: number; snap: boolean },
+): Vec2 {
+  if (snap) {
+    let best: Vec2 | null = null;
+    let bestDist = Infinity;
+    for (const target of targets) {
+      const d = target.sub(pointer);
+      const along = d.dot(direction);
+      const across = Math.abs(d.cross(direction));
+      if (along <= 1e-6 || across > along) continue;
+      const dist = d.len();
+      if (dist < bestDist) {
+        best = target;
+        bestDist = dist;
+      }
+    }
+    if (best) return best;
+  }
+  return pointer.add(direction.mul(step));
+}
@@ -6,13 +6,46 @@ import "./jsx.d";
 // Core component
 export { DraggableRenderer } from "./DraggableRenderer";
 export type {
+  DragInputMode,
+  DragSpan,
   DragStatus,
   DraggableRendererBaseProps,
+  DraggableRendererHandle,
   DraggableRendererProps,
 } from "./DraggableRenderer";
 
+// Clocks
+export { manualClock, performanceClock } from "./clock";
+export type { Clock, ManualClock } from "./clock";
+
+// Undo/redo
+export { useDraggableHistory } from "./useDraggableHistory";
+export type { DraggableHistoryOptions } from "./useDraggableHistory";
+
+// Headless simulation & drag recordings (for tests)
+export { parseDragRecording } from "./dragRecording";
+export type { DragRecording, RecordedFrame } from "./dragRecording";
+export {
+  recordDragHeadless,
+  replayDragHeadless,
+  sampleDragHeadless,
+  simulateDragHeadless,
+} from "./headless";
+export type {
+  DisplayFrame,
+  DragPointers,
+  HeadlessDragOptions,
+  HeadlessDragRun,
+  ReplayMismatch,
+} from "./headless";
+
 // Draggable type & helpers
-export type { Draggable, DraggableProps, SetState } from "./draggable";
+export type {
+  DragInfo,
+  Draggable,
+  DraggableProps,
+  SetState,
+} from "./draggable";
 
 // DragSpec & builder
 export { and, inOrder, lessThan, moreThan, param } from "./DragSpec";
@@ -21,14 +54,43 @@ export type {
   DragSpecBuilder,
   DragSpecMethods,
   FloatingOptions,
+  Hysteresis,
   VaryOptions,
 } from "./DragSpec";
 
+// Drag frames (what behaviors see each frame)
+export type { DragFrame, DragGesture } from "./DragBehavior";
+
 // Transitions
-export type { Transition, TransitionLike } from "./transition";
+export {
+  TransitionParseError,
+  builtinEasingNames,
+  parseTransition,
+  registerEasing,
+  spring,
+} from "./transition";
+export type {
+  BuiltinEasingName,
+  EasingFunction,
+  EasingName,
+  SpringEasing,
+  Transition,
+  TransitionLike,
+} from "./transition";
+
+// Drag fuzzing (for tests)
+export { formatDragFuzzFailure, fuzzDrags } from "./dragFuzz";
+export type {
+  DragFuzzFailure,
+  DragFuzzOptions,
+  DragFuzzResult,
+} from "./dragFuzz";
+
+// Static & animated rendering to SVG strings: see `dragology/server`
 
 // SVG helpers
 export type { Svgx } from "./svgx";
+export type { Bounds } from "./svgx/bounds";
 export { path, rotateDeg, rotateRad, scale, translate } from "./svgx/helpers";
 
 // Math
@@ -85,3 +85,36 @@ describe("findTriangle", () => {
     expect(delaunay.findTriangle(pt)).toEqual(-1);
   });
 });
+
+describe("hull", () => {
+  it("lists the hull's points in cyclic order", () => {
+    const delaunay = new Delaunay([
+      [0, 0],
+      [10, 0],
+      [5, 5],
+      [10, 10],
+      [0, 10],
+    ]);
+    const hull = delaunay.hull().map((p) => p.arr());
+    expect(hull).toHaveLength(4);
+    expect(hull).not.toContainEqual([5, 5]);
+    // Consecutive points are along an edge of the square.
+    for (let i = 0; i < hull.length; i++) {
+      const [ax, ay] = hull[i];
+      const [bx, by] = hull[(i + 1) % hull.length];
+      expect(ax === bx || ay === by).toBe(true);
+    }
+  });
+
+  it("goes there and back for collinear points", () => {
+    const delaunay = new Delaunay([
+      [0, 0],
+      [20, 0],
+      [10, 0],
+    ]);
+    // (d3-delaunay nudges collinear points a tiny bit.)
+    expect(delaunay.hull().map((p) => Math.round(p.x))).toEqual([
+      0, 10, 20, 10,
+    ]);
+  });
+});
@@ -117,6 +117,25 @@ export class Delaunay {
     return current > -1 ? Math.floor(current / 3) : -1;
   }
 
+  /** The convex hull's points, in cyclic order. */
+  hull(): Vec2[] {
+    if (this.numPoints() === 1) return [this.point(0)];
+    return Array.from(this.hullIdxs(), (idx) => this.point(idx));
+  }
+
+  private hullIdxs(): ArrayLike<number> {
+    // Special case: If the points are collinear, delaunay.hull isn't a
+    // hull in cyclic order. We use an undocumented d3-delaunay
+    // property to make our own hull.
+    const collinearIdxs = d3DelaunayCollinearIdxs(this._inner);
+    return collinearIdxs
+      ? [
+          ...collinearIdxs,
+          ..._.reverse(collinearIdxs.slice(1, collinearIdxs.length - 1)),
+        ]
+      : this._inner.hull;
+  }
+
   projectOntoConvexHull(pt: Vec2): ConvexHullProjection {
     // Special case: If there's just one point, the "triangles" have
     // -1s and are bad; just handle it here
@@ -174,16 +193,7 @@ export class Delaunay {
       }
     }
 
-    // Special case: If the points are collinear, delaunay.hull isn't a
-    // hull in cyclic order. We use an undocumented d3-delaunay
-    // property to make our own hull.
-    const collinearIdxs = d3DelaunayCollinearIdxs(this._inner);
-    const hull = collinearIdxs
-      ? [
-          ...collinearIdxs,
-          ..._.reverse(collinearIdxs.slice(1, collinearIdxs.length - 1)),
-        ]
-      : this._inner.hull;
+    const hull = this.hullIdxs();
     const points = this._inner.points;
     const qx = pt.x,
       qy = pt.y;
@@ -284,6 +284,35 @@ describe("DistanceMinimizer", () => {
     });
   });
 
+  describe("two targets (like a pinch)", () => {
+    // A centered bar with half-length `len` and angle `angle`; the
+    // two contacts are on its ends.
+    const paramsToPoints = ([len, angle]: number[]) => [
+      Vec2(-len, 0).rotateRad(angle),
+      Vec2(len, 0).rotateRad(angle),
+    ];
+
+    it("scales when the targets spread apart", () => {
+      const m = new DistanceMinimizer([50, 0], 0);
+      const result = m.minimizeMany(
+        [Vec2(-80, 0), Vec2(80, 0)],
+        paramsToPoints,
+      );
+      expect(result[0]).toBeCloseTo(80);
+      expect(result[1]).toBeCloseTo(0);
+    });
+
+    it("rotates when the targets twist", () => {
+      const m = new DistanceMinimizer([50, 0], 0);
+      const result = m.minimizeMany(
+        [Vec2(0, -50), Vec2(0, 50)],
+        paramsToPoints,
+      );
+      expect(result[0]).toBeCloseTo(50);
+      expect(Math.abs(Math.cos(result[1]))).toBeCloseTo(0);
+    });
+  });
+
   describe.todo("Cassini oval constraint", () => {
     // Matches the point-on-curve demo exactly:
     // center=(200,150), scale=100, a=1.1, c=1
@@ -1,3 +1,4 @@
+import _ from "lodash";
 import { adjPairs } from "../utils";
 import { Many, manyToArray } from "../utils/flexible-types";
 import { FindMinimum } from "./cobyla";
@@ -5,9 +6,11 @@ import { Vec2 } from "./vec2";
 
 /**
  * A stateful minimizer that finds params minimizing the distance
- * between a target point and a point derived from those params.
- * Backed by COBYLA. Supports warm-starting: each call to `minimize`
- * starts from the previous solution.
+ * between a target point and a point derived from those params (or,
+ * via `minimizeMany`, the summed squared distances between several
+ * targets and several points). Backed by COBYLA. Supports
+ * warm-starting: each call to `minimize` starts from the previous
+ * solution.
  *
  * Constraint convention: `constraints(params)` returns values where
  * <= 0 means satisfied, > 0 means violated (same as `moreThan`,
@@ -44,18 +47,19 @@ export class DistanceMinimizer {
    * parameter space so COBYLA's uniform rhobeg works for all dimensions.
    */
   private estimateScales(
-    paramsToPoint: (params: number[]) => Vec2,
+    paramsToPoints: (params: number[]) => Vec2[],
     baseParams: number[],
   ): number[] {
     const n = baseParams.length;
-    const basePos = paramsToPoint(baseParams);
+    const basePoints = paramsToPoints(baseParams);
     const eps = 1e-3;
     const scales: number[] = [];
     for (let i = 0; i < n; i++) {
       const perturbed = baseParams.slice();
       perturbed[i] += eps;
-      const perturbedPos = paramsToPoint(perturbed);
-      const sensitivity = perturbedPos.dist(basePos) / eps;
+      const perturbedPoints = paramsToPoints(perturbed);
+      const sensitivity =
+        Math.max(...perturbedPoints.map((p, j) => p.dist(basePoints[j]))) / eps;
       // Clamp to avoid division by zero or extreme ratios
       scales[i] = Math.max(sensitivity, 0.01);
     }
@@ -68,13 +72,33 @@ export class DistanceMinimizer {
     options?: {
       constraints?: (params: number[]) => number[];
     },
+  ): number[] {
+    return this.minimizeMany(
+      [target],
+      (params) => [paramsToPoint(params)],
+      options,
+    );
+  }
+
+  /**
+   * Like `minimize`, but with several target/point pairs (e.g. two
+   * fingers on the same element), whose squared distances are summed.
+   * `paramsToPoints` must return one point per target, in order.
+   * `exploredPositions` records the first point.
+   */
+  minimizeMany(
+    targets: Vec2[],
+    paramsToPoints: (params: number[]) => Vec2[],
+    options?: {
+      constraints?: (params: number[]) => number[];
+    },
   ): number[] {
     const n = this.curParams.length;
 
     // Estimate parameter scales (pixels per unit param) on first call,
     // then refresh periodically to handle changing geometry
     if (!this.scales) {
-      this.scales = this.estimateScales(paramsToPoint, this.curParams);
+      this.scales = this.estimateScales(paramsToPoints, this.curParams);
     }
     const scales = this.scales;
 
@@ -94,7 +118,11 @@ export class DistanceMinimizer {
 
     const rhoend = 1e-3;
     // In scaled space, pixel distance is a natural rhobeg
-    const rhobeg = Math.max(1, paramsToPoint(fromScaled(sx)).dist(target));
+    const startPoints = paramsToPoints(fromScaled(sx));
+    const rhobeg = Math.max(
+      1,
+      ...startPoints.map((p, j) => p.dist(targets[j])),
+    );
 
     const constraints = options?.constraints;
 
@@ -109,9 +137,9 @@ export class DistanceMinimizer {
 
         this.exploredValues.push(params.slice());
 
-        const point = paramsToPoint(params);
-        this.exploredPositions.push(point);
-        const obj = point.dist2(target);
+        const points = paramsToPoints(params);
+        this.exploredPositions.push(points[0]);
+        const obj = _.sum(points.map((p, j) => p.dist2(targets[j])));
 
         if (constraints) {
           const gs = constraints(params);
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { Vec2 } from "./math/vec2";
+import {
+  PointerSample,
+  addPointerSample,
+  estimatePointerVelocity,
+} from "./pointerVelocity";
+
+describe("estimatePointerVelocity", () => {
+  it("averages over recent samples", () => {
+    const samples: PointerSample[] = [];
+    for (let t = 0; t <= 200; t += 10) {
+      addPointerSample(samples, { time: t, pos: Vec2(t * 2, 0) });
+    }
+    const v = estimatePointerVelocity(samples, 200);
+    expect(v.x).toBeCloseTo(2);
+    expect(v.y).toBeCloseTo(0);
+  });
+
+  it("is zero if the pointer stopped before now", () => {
+    const samples: PointerSample[] = [];
+    addPointerSample(samples, { time: 0, pos: Vec2(0, 0) });
+    addPointerSample(samples, { time: 10, pos: Vec2(50, 0) });
+    addPointerSample(samples, { time: 300, pos: Vec2(50, 0) });
+    expect(estimatePointerVelocity(samples, 300)).toEqual(Vec2(0));
+  });
+
+  it("is zero with too few samples", () => {
+    expect(estimatePointerVelocity([], 0)).toEqual(Vec2(0));
+    expect(estimatePointerVelocity([{ time: 0, pos: Vec2(1, 1) }], 0)).toEqual(
+      Vec2(0),
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import { Vec2 } from "./math/vec2";
+
+/**
+ * Pointer velocity is estimated from the pointer's recent history:
+ * the average velocity over the last `VELOCITY_WINDOW` ms. Averaging
+ * over a window (rather than using the last two samples) smooths out
+ * jittery event timing; dropping older samples means a pointer that
+ * stops before it's released has no velocity.
+ */
+
+export type PointerSample = { time: number; pos: Vec2 };
+
+const VELOCITY_WINDOW = 100; // ms
+
+/**
+ * Record a sample, forgetting samples too old to matter.
+ */
+export function addPointerSample(
+  samples: PointerSample[],
+  sample: PointerSample,
+): void {
+  samples.push(sample);
+  while (samples.length > 2 && samples[0].time < sample.time - VELOCITY_WINDOW)
+    samples.shift();
+}
+
+/**
+ * Estimated velocity (in px per ms) as of `now`.
+ */
+export function estimatePointerVelocity(
+  samples: PointerSample[],
+  now: number,
+): Vec2 {
+  const recent = samples.filter((s) => s.time >= now - VELOCITY_WINDOW);
+  if (recent.length < 2) return Vec2(0);
+  const first = recent[0];
+  const last = recent[recent.length - 1];
+  const dt = last.time - first.time;
+  if (dt <= 0) return Vec2(0);
+  return last.pos.sub(first.pos).div(dt);
+}
@@ -0,0 +1,9 @@
+// Entry point for `dragology/server`: rendering diagrams to SVG
+// strings, e.g. for docs, thumbnails or build scripts. These use
+// react-dom/server, so they're kept out of the main entry point.
+
+// Static & animated rendering
+export { displayFramesToAnimatedSvg, renderAnimatedSvg } from "./animatedSvg";
+export type { AnimatedSvgOptions } from "./animatedSvg";
+export { layeredToStaticSvg, renderStaticSvg } from "./staticSvg";
+export type { StaticSvgOptions } from "./staticSvg";
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import {
+  makeSpringOrigin,
+  runSpring,
+  springEndsAfter,
+  springExpired,
+  springSnapshot,
+} from "./spring";
+import { layerSvg } from "./svgx/layers";
+import { localToGlobal } from "./svgx/transform";
+import { spring, springProgress } from "./transition";
+
+const at = (x: number) =>
+  layerSvg(
+    <g>
+      <circle id="dot" transform={`translate(${x}, 0)`} r={5} />
+    </g>,
+  );
+
+const dotX = (layered: ReturnType<typeof at>) =>
+  localToGlobal(layered.byId.get("dot")!.element.props.transform, [0, 0]).x;
+
+describe("springProgress", () => {
+  const { easing } = spring();
+  if (typeof easing !== "object") throw new Error("expected a spring");
+
+  it("starts at 0 and comes to rest at 1", () => {
+    expect(springProgress(easing, 0, 0)).toBeCloseTo(0);
+    expect(springProgress(easing, 0, spring().duration)).toBeCloseTo(1, 2);
+  });
+
+  it("starts with the given velocity", () => {
+    const h = 0.01;
+    const slope =
+      (springProgress(easing, 5, h) - springProgress(easing, 5, 0)) /
+      (h / 1000);
+    expect(slope).toBeCloseTo(5, 0);
+  });
+
+  it("handles critically damped and overdamped springs", () => {
+    for (const damping of [2 * Math.sqrt(170), 60]) {
+      const { easing, duration } = spring({ damping });
+      if (typeof easing !== "object") throw new Error("expected a spring");
+      expect(springProgress(easing, 0, 0)).toBeCloseTo(0);
+      expect(springProgress(easing, 0, duration)).toBeCloseTo(1, 2);
+    }
+  });
+});
+
+describe("springSnapshot", () => {
+  it("carries velocity into an interrupting spring", () => {
+    const first = makeSpringOrigin(spring(), 0, () => at(0))!;
+    const interruptAt = first.time + 50;
+    const before = springSnapshot(first, at(100), interruptAt);
+    expect(before.velocities.get("dot")!.x).toBeGreaterThan(0);
+
+    // Reverse direction: the dot should keep moving forward briefly
+    // rather than turning around instantly.
+    const second = makeSpringOrigin(spring(), interruptAt, () => before)!;
+    const x0 = dotX(runSpring(second, at(0), interruptAt));
+    const x1 = dotX(runSpring(second, at(0), interruptAt + 8));
+    expect(x0).toBeCloseTo(dotX(before.layered));
+    expect(x1).toBeGreaterThan(x0);
+  });
+
+  it("doesn't carry velocity into eased transitions", () => {
+    const first = makeSpringOrigin(spring(), 0, () => at(0))!;
+    const before = springSnapshot(first, at(100), first.time + 50);
+    const second = makeSpringOrigin(true, 50, () => before)!;
+    expect(second.velocities).toBeNull();
+  });
+});
+
+describe("per-layer timing", () => {
+  const row = (xs: number[], dotTransition?: string) =>
+    layerSvg(
+      <g>
+        {xs.map((x, i) => (
+          <circle
+            key={i}
+            id={`dot${i}`}
+            transform={`translate(${x}, 0)`}
+            r={5}
+            dragologyTransition={i === 0 ? dotTransition : undefined}
+          />
+        ))}
+      </g>,
+    );
+  const xOf = (layered: ReturnType<typeof row>, id: string) =>
+    localToGlobal(layered.byId.get(id)!.element.props.transform, [0, 0]).x;
+
+  it("lets a layer override the transition", () => {
+    const origin = makeSpringOrigin("100ms linear", 0, () =>
+      row([0, 0], "300ms linear"),
+    )!;
+    const target = row([100, 100], "300ms linear");
+    const halfway = runSpring(origin, target, origin.time + 50);
+    expect(xOf(halfway, "dot0")).toBeCloseTo(100 / 6);
+    expect(xOf(halfway, "dot1")).toBeCloseTo(50);
+    expect(springExpired(origin, origin.time + 200, () => target)).toBe(false);
+    expect(springExpired(origin, origin.time + 300, () => target)).toBe(true);
+  });
+
+  it("waits for an override that's only on the target", () => {
+    const origin = makeSpringOrigin("100ms linear", 0, () => row([0, 0]))!;
+    const target = row([100, 100], "300ms linear");
+    const halfway = runSpring(origin, target, origin.time + 50);
+    expect(xOf(halfway, "dot0")).toBeCloseTo(100 / 6);
+    expect(springExpired(origin, origin.time + 200, () => target)).toBe(false);
+    expect(springExpired(origin, origin.time + 300, () => target)).toBe(true);
+    expect(springEndsAfter(origin, target)).toBe(300);
+  });
+
+  it("staggers layers that move", () => {
+    const origin = makeSpringOrigin("100ms linear stagger=40ms", 0, () =>
+      row([0, 0, 0]),
+    )!;
+    // dot1 doesn't move, so it doesn't take a slot.
+    const mid = runSpring(origin, row([100, 0, 100]), origin.time + 50);
+    expect(xOf(mid, "dot0")).toBeCloseTo(50);
+    expect(xOf(mid, "dot1")).toBeCloseTo(0);
+    expect(xOf(mid, "dot2")).toBeCloseTo(10);
+    const end = runSpring(origin, row([100, 0, 100]), origin.time + 140);
+    expect(xOf(end, "dot2")).toBeCloseTo(100);
+  });
+});
@@ -0,0 +1,341 @@
+import { Vec2 } from "./math/vec2";
+import { Layer, LayeredSvgx } from "./svgx/layers";
+import { lerpLayered, lerpSvgx } from "./svgx/lerp";
+import { localToGlobal } from "./svgx/transform";
+import {
+  SpringEasing,
+  Transition,
+  TransitionLike,
+  applyEasing,
+  resolveTransitionLike,
+  springProgress,
+  springSettleTime,
+  transitionEndTime,
+} from "./transition";
+
+/**
+ * A "spring" is how DraggableRenderer animates from one display to
+ * another: it remembers what was on screen when it started (the
+ * origin) and blends from that towards whatever the current target
+ * is.
+ *
+ * Layers don't all have to move in lockstep:
+ * - A layer can set its own transition with `dragologyTransition`
+ *   (or opt out of springs entirely with `dragologyTransition={false}`).
+ * - A transition with `stagger` delays each moving layer a little
+ *   more than the one before it, in drawing order.
+ * - Springs with a spring easing carry per-layer velocities over
+ *   from the spring they interrupt, so that, e.g., switching
+ *   branches mid-transition doesn't kink the motion. A layer's
+ *   velocity is the velocity of its transform's origin, and is
+ *   projected onto the line from the layer's origin position to its
+ *   target position.
+ */
+
+export type SpringOrigin = {
+  layered: LayeredSvgx;
+  time: number;
+  transition: Transition;
+  /**
+   * Velocities (in px per ms) of layers that were moving when this
+   * spring started. Only used by layers with spring easings.
+   */
+  velocities: Map<string, Vec2> | null;
+  /**
+   * How long (in ms) until every layer is done moving, as far as the
+   * origin's layers know. Layers in the target can ask for longer
+   * transitions too; see `springEndsAfter`.
+   */
+  endsAfter: number;
+};
+
+/**
+ * What a spring is displaying at some moment, plus how fast each
+ * layer is moving.
+ */
+export type SpringSnapshot = {
+  layered: LayeredSvgx;
+  velocities: Map<string, Vec2>;
+};
+
+export function makeSpringOrigin(
+  transitionLike: TransitionLike,
+  /** The time (see `Clock`) the spring starts at. */
+  now: number,
+  /**
+   * We provide this lazily cuz if the transition says "no
+   * transition" then we can skip it.
+   */
+  currentLazy: () => LayeredSvgx | SpringSnapshot,
+): SpringOrigin | null {
+  const transition = resolveTransitionLike(transitionLike);
+  if (transition === false) return null;
+  const current = currentLazy();
+  const snapshot: SpringSnapshot =
+    "byId" in current ? { layered: current, velocities: new Map() } : current;
+  const transitions = [
+    transition,
+    ...layerTransitionOverrides(snapshot.layered),
+  ];
+  const velocities =
+    snapshot.velocities.size > 0 &&
+    transitions.some((t) => typeof t.easing === "object")
+      ? snapshot.velocities
+      : null;
+
+  const origin = {
+    layered: snapshot.layered,
+    time: now,
+    transition,
+    velocities,
+  };
+  return { ...origin, endsAfter: transitionsEndAfter(origin, transitions) };
+}
+
+/**
+ * How long (in ms) until every layer is done moving towards `target`:
+ * the origin's bound, or longer if a target layer overrides the
+ * transition with a slower one.
+ */
+export function springEndsAfter(
+  springOrigin: SpringOrigin,
+  target: LayeredSvgx,
+): number {
+  return Math.max(
+    springOrigin.endsAfter,
+    transitionsEndAfter(springOrigin, layerTransitionOverrides(target)),
+  );
+}
+
+export function springExpired(
+  springOrigin: SpringOrigin,
+  now: number,
+  /** Lazy, since we only need it once the origin's bound is up. */
+  targetLazy: () => LayeredSvgx,
+) {
+  const elapsed = now - springOrigin.time;
+  return (
+    elapsed >= springOrigin.endsAfter &&
+    elapsed >= springEndsAfter(springOrigin, targetLazy())
+  );
+}
+
+/**
+ * An upper bound on how long (in ms) layers following any of
+ * `transitions` take to finish. We don't know which layers will
+ * move, so every layer might take a stagger slot, and carry a
+ * velocity.
+ */
+function transitionsEndAfter(
+  springOrigin: Omit<SpringOrigin, "endsAfter">,
+  transitions: Transition[],
+): number {
+  const { layered, transition, velocities } = springOrigin;
+  const maxStaggerDelay =
+    (transition.stagger ?? 0) * Math.max(layered.byId.size - 1, 0);
+  return Math.max(
+    0,
+    ...transitions.map((t) => {
+      let end = transitionEndTime(t);
+      if (velocities && typeof t.easing === "object") {
+        const max = maxSpringVelocity(t.easing);
+        end =
+          (t.delay ?? 0) +
+          Math.max(
+            t.duration,
+            springSettleTime(t.easing, max),
+            springSettleTime(t.easing, -max),
+          );
+      }
+      return end + maxStaggerDelay;
+    }),
+  );
+}
+
+/**
+ * Blends a target render with a spring's startLayered.
+ * The target is used as the base (first arg to lerpLayered) so its
+ * non-interpolatable props (like event handlers) are preserved.
+ * Layers with dragologyTransition={false} are never sprung — they
+ * always show the target's version so they track the cursor.
+ */
+export function runSpring(
+  springOrigin: SpringOrigin | null,
+  target: LayeredSvgx,
+  now: number,
+): LayeredSvgx {
+  if (!springOrigin) return target;
+  const elapsed = now - springOrigin.time;
+  const t = applyEasing(springOrigin.transition, elapsed);
+  const lerped = lerpLayered(target, springOrigin.layered, 1 - t);
+  const staggerIndices = getStaggerIndices(springOrigin, target);
+  for (const [key, layer] of lerped.byId.entries()) {
+    const targetVal = target.byId.get(key);
+    if (!targetVal) continue;
+    // Replace non-transitioning layers with the target's version so
+    // they track the cursor without spring lag.
+    if (targetVal.element.props["dragologyTransition"] === false) {
+      lerped.byId.set(key, targetVal);
+      continue;
+    }
+    // Layers with their own timing get their own progress.
+    const originVal = springOrigin.layered.byId.get(key);
+    if (!originVal) continue;
+    const layerT = layerProgress(
+      springOrigin,
+      key,
+      originVal,
+      targetVal,
+      staggerIndices.get(key) ?? 0,
+      elapsed,
+    );
+    if (layerT !== null) {
+      lerped.byId.set(key, {
+        ...layer,
+        element: lerpSvgx(targetVal.element, originVal.element, 1 - layerT),
+      });
+    }
+  }
+  return lerped;
+}
+
+/**
+ * Like `runSpring`, but also reports each layer's velocity, for
+ * carrying over into a spring that interrupts this one.
+ */
+export function springSnapshot(
+  springOrigin: SpringOrigin | null,
+  target: LayeredSvgx,
+  now: number,
+): SpringSnapshot {
+  const layered = runSpring(springOrigin, target, now);
+  const velocities = new Map<string, Vec2>();
+  if (!springOrigin || springExpired(springOrigin, now, () => target)) {
+    return { layered, velocities };
+  }
+
+  const elapsed = now - springOrigin.time;
+  const staggerIndices = getStaggerIndices(springOrigin, target);
+  const h = 1; // ms
+  for (const [key, originVal] of springOrigin.layered.byId) {
+    const targetVal = target.byId.get(key);
+    if (!targetVal) continue;
+    if (targetVal.element.props["dragologyTransition"] === false) continue;
+    const d = layerPosition(targetVal).sub(layerPosition(originVal));
+    if (d.len2() < 1e-12) continue;
+    const progressAt = (e: number) =>
+      layerProgress(
+        springOrigin,
+        key,
+        originVal,
+        targetVal,
+        staggerIndices.get(key) ?? 0,
+        e,
+      ) ?? applyEasing(springOrigin.transition, e);
+    const e0 = Math.max(elapsed - h, 0);
+    const progressVelocity =
+      (progressAt(elapsed + h) - progressAt(e0)) / (elapsed + h - e0);
+    if (Math.abs(progressVelocity) < 1e-9) continue;
+    velocities.set(key, d.mul(progressVelocity));
+  }
+  return { layered, velocities };
+}
+
+/**
+ * The transition a layer asks for with `dragologyTransition`, if
+ * it's anything more specific than true/false.
+ */
+function layerTransitionOverride(layer: Layer): Transition | null {
+  const override: TransitionLike = layer.element.props["dragologyTransition"];
+  if (override === undefined || typeof override === "boolean") return null;
+  return resolveTransitionLike(override) || null;
+}
+
+function layerTransitionOverrides(layered: LayeredSvgx): Transition[] {
+  return [...layered.byId.values()].flatMap(
+    (layer) => layerTransitionOverride(layer) || [],
+  );
+}
+
+/**
+ * The progress of a layer with its own timing (a transition override,
+ * a stagger delay, or a carried-over velocity), or null if it just
+ * follows the spring's overall progress.
+ */
+function layerProgress(
+  springOrigin: SpringOrigin,
+  key: string,
+  originVal: Layer,
+  targetVal: Layer,
+  staggerIndex: number,
+  elapsed: number,
+): number | null {
+  const override = layerTransitionOverride(targetVal);
+  const velocity = springOrigin.velocities?.get(key);
+  if (!override && !velocity && staggerIndex === 0) return null;
+
+  const transition = override ?? springOrigin.transition;
+  const delay =
+    (transition.delay ?? 0) +
+    staggerIndex * (springOrigin.transition.stagger ?? 0);
+  const { easing } = transition;
+  if (typeof easing === "object" && velocity) {
+    const v0 = layerSpringVelocity(
+      easing,
+      velocity,
+      layerPosition(targetVal).sub(layerPosition(originVal)),
+    );
+    return springProgress(
+      easing,
+      (easing.velocity ?? 0) + v0,
+      Math.max(elapsed - delay, 0),
+    );
+  }
+  return applyEasing({ ...transition, delay }, elapsed);
+}
+
+/**
+ * For a staggered spring: the order in which layers that are moving
+ * start to move. (Layers that aren't moving don't take a slot.)
+ */
+function getStaggerIndices(
+  springOrigin: SpringOrigin,
+  target: LayeredSvgx,
+): Map<string, number> {
+  const indices = new Map<string, number>();
+  if (!springOrigin.transition.stagger) return indices;
+  for (const [key, targetVal] of target.byId) {
+    const originVal = springOrigin.layered.byId.get(key);
+    if (!originVal) continue;
+    if (targetVal.element.props["dragologyTransition"] === false) continue;
+    const moved = layerPosition(targetVal).dist2(layerPosition(originVal));
+    if (moved > 0.25) indices.set(key, indices.size);
+  }
+  return indices;
+}
+
+/**
+ * Convert a layer's velocity (px per ms) into a spring's initial
+ * velocity (progress per second) along `d`, the layer's path.
+ */
+function layerSpringVelocity(
+  easing: SpringEasing,
+  velocity: Vec2,
+  d: Vec2,
+): number {
+  const len2 = d.len2();
+  if (len2 < 1e-12) return 0;
+  const v0 = (velocity.dot(d) / len2) * 1000;
+  const max = maxSpringVelocity(easing);
+  return Math.min(Math.max(v0, -max), max);
+}
+
+function maxSpringVelocity({ stiffness, mass }: SpringEasing): number {
+  // A few times the spring's natural frequency: plenty for
+  // continuity, without letting a short path produce a wild fling.
+  return 4 * Math.sqrt(stiffness / mass);
+}
+
+function layerPosition(layer: Layer): Vec2 {
+  return localToGlobal(layer.element.props.transform, Vec2(0));
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { param } from "./DragSpec";
+import { Draggable } from "./draggable";
+import { renderStaticSvg } from "./staticSvg";
+import { translate } from "./svgx/helpers";
+
+type State = { x: number };
+
+const draggable: Draggable<State> = ({ state, d }) => (
+  <g>
+    <rect x={0} y={0} width={100} height={20} fill="#eee" />
+    <circle
+      id="knob"
+      transform={translate(state.x, 10)}
+      r={10}
+      fill="black"
+      dragologyOnDrag={() => d.vary(state, param("x"))}
+      dragologyZIndex={1}
+    />
+  </g>
+);
+
+describe("renderStaticSvg", () => {
+  it("renders a standalone SVG, fit to the diagram", () => {
+    const svg = renderStaticSvg(draggable, { x: 100 });
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg"/);
+    expect(svg).toContain('viewBox="0 0 110 20"');
+    expect(svg).toContain('width="110"');
+    expect(svg).toContain("<circle");
+  });
+
+  it("leaves out dragology's props", () => {
+    const svg = renderStaticSvg(draggable, { x: 50 });
+    expect(svg).not.toMatch(/dragology/i);
+    expect(svg).not.toContain("data-path");
+  });
+
+  it("adds padding and takes a size", () => {
+    const svg = renderStaticSvg(
+      draggable,
+      { x: 50 },
+      { padding: 5, width: 240 },
+    );
+    expect(svg).toContain('viewBox="-5 -5 110 30"');
+    expect(svg).toContain('width="240"');
+  });
+});
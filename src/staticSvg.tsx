@@ -0,0 +1,113 @@
+import { renderToStaticMarkup } from "react-dom/server";
+import { Draggable } from "./draggable";
+import { renderDraggableInert } from "./renderDraggable";
+import { Svgx, updatePropsDownTree } from "./svgx";
+import { Bounds } from "./svgx/bounds";
+import { getLayeredBounds } from "./svgx/layeredBounds";
+import { LayeredSvgx, drawLayered } from "./svgx/layers";
+
+export type StaticSvgOptions = {
+  /** Space (in px) to leave around the diagram's bounds. Default: 0. */
+  padding?: number;
+  /**
+   * The area to show, instead of the diagram's bounds (e.g. the
+   * width & height a DraggableRenderer is given, from the origin).
+   */
+  viewBox?: { x: number; y: number; width: number; height: number };
+  /** Default: the width of the viewBox. */
+  width?: number;
+  /** Default: the height of the viewBox. */
+  height?: number;
+};
+
+/**
+ * Render a state of a draggable to a standalone SVG document, e.g.
+ * for docs or server-rendered pages. This works without a DOM: it
+ * uses React's server renderer. Dragology's own props are left out,
+ * and the viewBox fits the diagram's bounds.
+ */
+export function renderStaticSvg<T extends object>(
+  draggable: Draggable<T>,
+  state: T,
+  options: StaticSvgOptions = {},
+): string {
+  return layeredToStaticSvg(
+    renderDraggableInert(draggable, state, null, false),
+    options,
+  );
+}
+
+/**
+ * Like `renderStaticSvg`, for something that's already been rendered
+ * and layered (like a frame of a drag).
+ */
+export function layeredToStaticSvg(
+  layered: LayeredSvgx,
+  options: StaticSvgOptions = {},
+): string {
+  const byId = new Map(
+    [...layered.byId].map(([id, layer]) => [
+      id,
+      { ...layer, element: stripForSvgFile(layer.element) },
+    ]),
+  );
+  return svgDocument(
+    drawLayered({ ...layered, byId }),
+    getLayeredBounds(layered),
+    options,
+  );
+}
+
+/**
+ * Leave out dragology's props (including `data-path`) and event
+ * handlers: none of them mean anything in an SVG file.
+ */
+export function stripForSvgFile(element: Svgx): Svgx {
+  return updatePropsDownTree(element, (el) => {
+    const props: Record<string, undefined> = {};
+    for (const [name, value] of Object.entries(el.props)) {
+      if (
+        name.startsWith("dragology") ||
+        name === "data-path" ||
+        typeof value === "function"
+      ) {
+        props[name] = undefined;
+      }
+    }
+    return props;
+  });
+}
+
+/**
+ * Wrap content in a standalone `<svg>` whose viewBox fits `bounds`,
+ * and serialize it.
+ */
+export function svgDocument(
+  content: Svgx,
+  bounds: Bounds,
+  { padding = 0, width, height, ...options }: StaticSvgOptions,
+): string {
+  const viewBox = options.viewBox
+    ? options.viewBox
+    : bounds.empty
+      ? undefined
+      : {
+          x: bounds.minX - padding,
+          y: bounds.minY - padding,
+          width: bounds.maxX - bounds.minX + 2 * padding,
+          height: bounds.maxY - bounds.minY + 2 * padding,
+        };
+  return renderToStaticMarkup(
+    <svg
+      xmlns="http://www.w3.org/2000/svg"
+      width={width ?? viewBox?.width}
+      height={height ?? viewBox?.height}
+      viewBox={
+        viewBox &&
+        `${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`
+      }
+    >
+      {content}
+    </svg>,
+  );
+}
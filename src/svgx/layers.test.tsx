@@ -4,9 +4,11 @@ import {
   drawLayered,
   Layer,
   layeredExtract,
+  layeredExtractPath,
   LayeredSvgx,
   layerSvg,
 } from "./layers";
+import { assignPaths } from "./path";
 
 describe("layerSvg", () => {
   it("pulls nodes with IDs to the top level", () => {
@@ -894,6 +896,80 @@ describe("layeredExtract", () => {
   });
 });
 
+describe("layeredExtractPath", () => {
+  it("cuts an element without an id out of its layer", () => {
+    const tree = assignPaths(
+      <g id="a" transform="translate(10, 0)">
+        <g opacity={0.5} transform="translate(0, 5)">
+          <rect />
+          <circle />
+        </g>
+      </g>,
+    );
+
+    const layered = layerSvg(tree);
+    const { extracted, remaining } = layeredExtractPath(layered, "a/0/1/");
+
+    expect(extracted).toMatchInlineSnapshot(`
+      {
+        "byId": Map {
+          "a/0/1/" => {
+            "element": <circle
+              data-path="a/0/1/"
+              opacity={0.5}
+              transform="translate(10, 0) translate(0, 5)"
+            />,
+            "stackingPath": [
+              0,
+            ],
+          },
+        },
+        "descendents": Map {},
+      }
+    `);
+    expect(remaining).toMatchInlineSnapshot(`
+      {
+        "byId": Map {
+          "a" => {
+            "element": <g
+              data-path="a/"
+              id="a"
+              transform="translate(10, 0)"
+            >
+              <g
+                data-path="a/0/"
+                opacity={0.5}
+                transform="translate(0, 5)"
+              >
+                <rect
+                  data-path="a/0/0/"
+                />
+              </g>
+            </g>,
+            "stackingPath": [
+              0,
+            ],
+          },
+        },
+        "descendents": Map {},
+      }
+    `);
+  });
+
+  it("extracts an element with an id as layeredExtract does", () => {
+    const layered = layerSvg(
+      assignPaths(
+        <g>
+          <rect id="r1" />
+        </g>,
+      ),
+    );
+    expect(layeredExtractPath(layered, "r1/")).toEqual(
+      layeredExtract(layered, "r1"),
+    );
+  });
+});
+
 describe("drawLayered", () => {
   it("preserves sibling order at matching stacking paths", () => {
     const tree = (
@@ -9,7 +9,7 @@ import {
 import { ErrorWithJSX } from "../ErrorBoundary";
 import { assert } from "../utils/assert";
 import { objectKeys } from "../utils/js";
-import { findByPath } from "./path";
+import { findByPath, getPath } from "./path";
 import { combineTransforms } from "./transform";
 
 export type Layer = {
@@ -284,6 +284,59 @@ export function layeredExtract(
   };
 }
 
+/**
+ * Like `layeredExtract`, but for the element at a path (see
+ * `assignPaths`), which needn't have an id. An element without one
+ * is cut out of the layer it's in and becomes a layer of its own,
+ * keyed by its path, with its accumulated transform and opacity. (ID'd
+ * elements inside it are already layers of their own, and aren't
+ * extracted along with it.)
+ */
+export function layeredExtractPath(
+  layered: LayeredSvgx,
+  path: string,
+): { remaining: LayeredSvgx; extracted: LayeredSvgx } {
+  for (const [key, layer] of layered.byId.entries()) {
+    if (getPath(layer.element) === path) {
+      return layeredExtract(layered, key);
+    }
+    const found = findByPath(path, layer.element);
+    if (!found) continue;
+
+    const opacity = [...found.ancestors, found.element].reduce(
+      (acc, el) =>
+        acc * (el.props.opacity !== undefined ? Number(el.props.opacity) : 1),
+      1,
+    );
+    const extractedLayer: Layer = {
+      element: cloneElement(found.element, {
+        transform: found.accumulatedTransform || undefined,
+        opacity: opacity !== 1 ? opacity : undefined,
+      }),
+      stackingPath: layer.stackingPath,
+    };
+    const remainingById = new Map(layered.byId);
+    remainingById.set(key, {
+      ...layer,
+      element: removeByPath(layer.element, path),
+    });
+    return {
+      remaining: { byId: remainingById, descendents: layered.descendents },
+      extracted: {
+        byId: new Map([[path, extractedLayer]]),
+        descendents: new Map(),
+      },
+    };
+  }
+  throw new Error(`Layered SVG does not contain path "${path}"`);
+}
+
+function removeByPath(element: Svgx, path: string): Svgx {
+  return updateElement(element, (child) =>
+    getPath(child) === path ? null : removeByPath(child, path),
+  );
+}
+
 export function layeredMerge(h1: LayeredSvgx, h2: LayeredSvgx): LayeredSvgx {
   const mergedById = new Map<string, Layer>(h1.byId);
   for (const [key, value] of h2.byId.entries()) {
@@ -0,0 +1,113 @@
+import * as d3Ease from "d3-ease";
+import { describe, expect, it } from "vitest";
+import {
+  applyEasing,
+  builtinEasingNames,
+  parseTransition,
+  registerEasing,
+  resolveTransitionLike,
+  Transition,
+  TransitionParseError,
+} from "./transition";
+
+describe("parseTransition", () => {
+  it("parses a duration and easing, in either order", () => {
+    expect(parseTransition("300ms elastic-out")).toEqual({
+      easing: "elastic-out",
+      duration: 300,
+    });
+    expect(parseTransition("bounce-out 0.5s")).toEqual({
+      easing: "bounce-out",
+      duration: 500,
+    });
+  });
+
+  it("fills in defaults", () => {
+    expect(parseTransition("100ms")).toEqual({
+      easing: "cubic-out",
+      duration: 100,
+    });
+    expect(parseTransition("back-in-out")).toEqual({
+      easing: "back-in-out",
+      duration: 200,
+    });
+  });
+
+  it("treats a second time as a delay", () => {
+    expect(parseTransition("500ms back-in-out 100ms")).toEqual({
+      easing: "back-in-out",
+      duration: 500,
+      delay: 100,
+    });
+  });
+
+  it("parses a stagger", () => {
+    expect(parseTransition("300ms stagger=30ms")).toEqual({
+      easing: "cubic-out",
+      duration: 300,
+      stagger: 30,
+    });
+    expect(() => parseTransition("stagger=fast")).toThrow(/needs a time/);
+  });
+
+  it("parses springs, with optional parameters", () => {
+    const t = parseTransition("spring(stiffness=300, damping=20) 50ms");
+    expect(t).toMatchObject({
+      easing: { type: "spring", stiffness: 300, damping: 20, mass: 1 },
+      delay: 50,
+    });
+    expect(t && t.duration).toBeGreaterThan(0);
+    expect(parseTransition("spring")).toMatchObject({
+      easing: { type: "spring", stiffness: 170, damping: 26 },
+    });
+  });
+
+  it("parses none", () => {
+    expect(parseTransition(" none ")).toBe(false);
+  });
+
+  it.each([
+    ["", /empty/],
+    ["200", /needs a unit/],
+    ["200ms wobble", /unknown easing "wobble"/],
+    ["cubic-out elastic-out", /more than one easing/],
+    ["1ms 2ms 3ms", /too many times/],
+    ["spring 100ms 200ms", /only take a delay/],
+    ["spring(stiffness=0)", /stiffness must be positive/],
+    ["spring(bounciness=3)", /unknown spring parameter "bounciness"/],
+    ["spring(stiffness)", /bad spring parameter/],
+    ["none 200ms", /"none" can't be combined/],
+  ])("rejects %j", (input, message) => {
+    expect(() => parseTransition(input)).toThrow(TransitionParseError);
+    expect(() => parseTransition(input)).toThrow(message);
+  });
+});
+
+describe("named easings", () => {
+  it("includes the d3-ease family", () => {
+    expect(builtinEasingNames).toContain("back-in-out");
+    expect(builtinEasingNames).toContain("bounce-out");
+    expect(applyEasing({ easing: "bounce-out", duration: 100 }, 40)).toBe(
+      d3Ease.easeBounceOut(0.4),
+    );
+  });
+
+  it("can be extended", () => {
+    registerEasing("test-step", (t) => (t < 0.5 ? 0 : 1));
+    const transition = resolveTransitionLike("test-step 100ms") as Transition;
+    expect(applyEasing(transition, 40)).toBe(0);
+    expect(applyEasing(transition, 60)).toBe(1);
+    expect(() => registerEasing("test-step", (t) => t)).toThrow(
+      /already exists/,
+    );
+    expect(() => registerEasing("Not Kebab", (t) => t)).toThrow(
+      /invalid easing name/,
+    );
+  });
+
+  it("waits out the delay", () => {
+    const t = { easing: "linear", duration: 100, delay: 50 } as const;
+    expect(applyEasing(t, 25)).toBe(0);
+    expect(applyEasing(t, 100)).toBe(0.5);
+  });
+});
@@ -2,28 +2,223 @@ import * as d3Ease from "d3-ease";
 import { assertNever } from "./utils/assert";
 
 export type Transition = {
-  easing: "cubic-out" | "elastic-out" | ((t: number) => number);
+  easing: EasingName | EasingFunction | SpringEasing;
+  /**
+   * For a spring, this is the time it takes to settle (see `spring`),
+   * after which the transition is considered done.
+   */
   duration: number;
+  /** Time (in ms) to hold still before starting. Default: 0. */
+  delay?: number;
+  /**
+   * Extra delay (in ms) for each successive moving layer, so they
+   * settle in a cascade rather than all at once. Default: 0.
+   */
+  stagger?: number;
+};
+
+export type EasingFunction = (t: number) => number;
+
+/**
+ * Any easing registered by name – the d3-ease family (see
+ * `builtinEasingNames`) or one added with `registerEasing`.
+ */
+export type EasingName = BuiltinEasingName | (string & {});
+
+/**
+ * A damped spring, simulated physically rather than following a
+ * fixed curve. Unlike other easings, springs pick up the velocity of
+ * whatever motion they interrupt.
+ */
+export type SpringEasing = {
+  type: "spring";
+  stiffness: number;
+  damping: number;
+  mass: number;
+  /** Initial velocity, in progress per second. Default: 0. */
+  velocity?: number;
 };
 
 export function applyEasing(
-  { easing, duration }: Transition,
+  { easing, duration, delay = 0 }: Transition,
   t: number,
 ): number {
+  t = Math.max(t - delay, 0);
+  if (typeof easing === "object") {
+    return springProgress(easing, easing.velocity ?? 0, t);
+  }
   const easingFunction =
-    typeof easing === "function"
-      ? easing
-      : easing === "cubic-out"
-        ? d3Ease.easeCubicOut
-        : easing === "elastic-out"
-          ? d3Ease.easeElasticOut
-          : assertNever(easing);
-  return easingFunction(t / duration);
+    typeof easing === "function" ? easing : getEasing(easing);
+  return easingFunction(Math.min(t / duration, 1));
+}
+
+/**
+ * Total time (in ms) a transition takes, including its delay.
+ */
+export function transitionEndTime({ duration, delay = 0 }: Transition) {
+  return delay + duration;
+}
+
+// # Named easings
+
+const d3Easings = {
+  linear: d3Ease.easeLinear,
+  "quad-in": d3Ease.easeQuadIn,
+  "quad-out": d3Ease.easeQuadOut,
+  "quad-in-out": d3Ease.easeQuadInOut,
+  "cubic-in": d3Ease.easeCubicIn,
+  "cubic-out": d3Ease.easeCubicOut,
+  "cubic-in-out": d3Ease.easeCubicInOut,
+  "poly-in": d3Ease.easePolyIn,
+  "poly-out": d3Ease.easePolyOut,
+  "poly-in-out": d3Ease.easePolyInOut,
+  "sin-in": d3Ease.easeSinIn,
+  "sin-out": d3Ease.easeSinOut,
+  "sin-in-out": d3Ease.easeSinInOut,
+  "exp-in": d3Ease.easeExpIn,
+  "exp-out": d3Ease.easeExpOut,
+  "exp-in-out": d3Ease.easeExpInOut,
+  "circle-in": d3Ease.easeCircleIn,
+  "circle-out": d3Ease.easeCircleOut,
+  "circle-in-out": d3Ease.easeCircleInOut,
+  "bounce-in": d3Ease.easeBounceIn,
+  "bounce-out": d3Ease.easeBounceOut,
+  "bounce-in-out": d3Ease.easeBounceInOut,
+  "back-in": d3Ease.easeBackIn,
+  "back-out": d3Ease.easeBackOut,
+  "back-in-out": d3Ease.easeBackInOut,
+  "elastic-in": d3Ease.easeElasticIn,
+  "elastic-out": d3Ease.easeElasticOut,
+  "elastic-in-out": d3Ease.easeElasticInOut,
+} satisfies Record<string, EasingFunction>;
+
+export type BuiltinEasingName = keyof typeof d3Easings;
+
+export const builtinEasingNames = Object.keys(d3Easings) as BuiltinEasingName[];
+
+const easingRegistry = new Map<string, EasingFunction>(
+  Object.entries(d3Easings),
+);
+
+const EASING_NAME_RE = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
+
+/**
+ * Register a named easing, so it can be used like the built-in ones
+ * (e.g. `.withDropTransition("300ms my-easing")`). Names are
+ * lowercase and kebab-case; they can't shadow an existing easing or
+ * the `spring`/`none` keywords.
+ */
+export function registerEasing(name: string, easing: EasingFunction): void {
+  if (!EASING_NAME_RE.test(name)) {
+    throw new Error(
+      `registerEasing: invalid easing name "${name}" (names are lowercase kebab-case, like "my-ease-out")`,
+    );
+  }
+  if (name === "spring" || name === "none") {
+    throw new Error(`registerEasing: "${name}" is a reserved word`);
+  }
+  if (easingRegistry.has(name)) {
+    throw new Error(`registerEasing: an easing named "${name}" already exists`);
+  }
+  easingRegistry.set(name, easing);
+}
+
+export function getEasing(name: string): EasingFunction {
+  const easing = easingRegistry.get(name);
+  if (!easing) {
+    throw new Error(
+      `Unknown easing "${name}". Known easings: ${[...easingRegistry.keys()].join(", ")}`,
+    );
+  }
+  return easing;
+}
+
+/**
+ * Make a spring transition. The defaults (stiffness 170, damping 26)
+ * give a quick spring with almost no overshoot. The transition's
+ * duration is computed: it's how long the spring takes to settle.
+ */
+export function spring({
+  stiffness = 170,
+  damping = 26,
+  mass = 1,
+  velocity,
+}: Partial<Omit<SpringEasing, "type">> = {}): Transition {
+  const easing: SpringEasing = { type: "spring", stiffness, damping, mass };
+  if (velocity !== undefined) easing.velocity = velocity;
+  return { easing, duration: springSettleTime(easing, velocity ?? 0) };
+}
+
+/**
+ * Progress (0 at the start, 1 at rest) of a spring released with the
+ * given initial velocity (in progress per second), `elapsed` ms in.
+ */
+export function springProgress(
+  { stiffness, damping, mass }: SpringEasing,
+  velocity: number,
+  elapsed: number,
+): number {
+  // Solve m·y'' + c·y' + k·y = 0 for the offset y from rest, with
+  // y(0) = -1 and y'(0) = velocity.
+  const t = elapsed / 1000;
+  const w0 = Math.sqrt(stiffness / mass);
+  const zeta = damping / (2 * Math.sqrt(stiffness * mass));
+  let y: number;
+  if (zeta < 1) {
+    const wd = w0 * Math.sqrt(1 - zeta * zeta);
+    const b = (velocity - zeta * w0) / wd;
+    y = Math.exp(-zeta * w0 * t) * (-Math.cos(wd * t) + b * Math.sin(wd * t));
+  } else if (zeta === 1) {
+    y = Math.exp(-w0 * t) * (-1 + (velocity - w0) * t);
+  } else {
+    const root = Math.sqrt(zeta * zeta - 1);
+    const r1 = -w0 * (zeta - root);
+    const r2 = -w0 * (zeta + root);
+    const c1 = (velocity + r2) / (r1 - r2);
+    y = c1 * Math.exp(r1 * t) + (-1 - c1) * Math.exp(r2 * t);
+  }
+  return 1 + y;
+}
+
+/**
+ * How long (in ms) until the spring stays within 0.1% of rest.
+ */
+export function springSettleTime(
+  easing: SpringEasing,
+  velocity: number,
+): number {
+  const STEP = 1000 / 120;
+  const MAX = 10000;
+  let settled = 0;
+  for (let elapsed = 0; elapsed <= MAX; elapsed += STEP) {
+    if (Math.abs(1 - springProgress(easing, velocity, elapsed)) > 1e-3) {
+      settled = elapsed + STEP;
+    }
+  }
+  return Math.min(settled, MAX);
+}
+
+/**
+ * An ease-out curve that starts with the given slope (in units of
+ * progress per unit time) and comes to rest at 1. Used to continue a
+ * motion that's already underway, e.g. a flung drop. Slopes are
+ * clamped to [0, 3], which keeps the curve from overshooting.
+ */
+export function easeWithInitialSlope(slope: number): (t: number) => number {
+  const m = Math.min(Math.max(slope, 0), 3);
+  // Cubic Hermite from (0, 0) with slope m to (1, 1) with slope 0
+  return (t) => {
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return m * (t3 - 2 * t2 + t) + (-2 * t3 + 3 * t2);
+  };
 }
 
 export type TransitionLike =
   | Transition
   | Transition["easing"]
+  /** see `parseTransition` */
+  | TransitionString
   | Transition["duration"]
   /** true means default, false means no transition */
   | boolean
@@ -33,13 +228,21 @@ export type TransitionLike =
 export function resolveTransitionLike(t: TransitionLike): Transition | false {
   if (t === false) return false;
   if (typeof t === "object") {
-    return t;
+    // A bare spring easing gets its settle time as its duration
+    return "type" in t ? spring(t) : t;
   }
   let transition: Transition = {
     easing: "cubic-out",
     duration: 200,
   };
-  if (typeof t === "string" || typeof t === "function") {
+  if (typeof t === "string") {
+    let parsed = parsedTransitions.get(t);
+    if (parsed === undefined) {
+      parsed = parseTransition(t);
+      parsedTransitions.set(t, parsed);
+    }
+    return parsed;
+  } else if (typeof t === "function") {
     transition.easing = t;
   } else if (typeof t === "number") {
     transition.duration = t;
@@ -50,3 +253,160 @@ export function resolveTransitionLike(t: TransitionLike): Transition | false {
   }
   return transition;
 }
+
+// # Transition strings
+
+// Transition strings are often written inline (e.g. in a
+// dragologyTransition prop), so we parse each one only once.
+const parsedTransitions = new Map<string, Transition | false>();
+
+/**
+ * A transition written as a string, like `"300ms elastic-out"`.
+ * (Any string is accepted by the type checker; see
+ * `parseTransition` for the syntax.)
+ */
+export type TransitionString = string;
+
+export class TransitionParseError extends Error {
+  constructor(
+    readonly input: string,
+    problem: string,
+  ) {
+    super(`Couldn't parse transition "${input}": ${problem}`);
+    this.name = "TransitionParseError";
+  }
+}
+
+const TIME_RE = /^(\d+(?:\.\d+)?|\.\d+)(ms|s)$/;
+const STAGGER_RE = /^stagger=(.*)$/;
+const SPRING_RE = /^spring(?:\((.*)\))?$/;
+const SPRING_PARAMS = ["stiffness", "damping", "mass", "velocity"] as const;
+
+/**
+ * Parse a transition string. It's a space-separated list of:
+ *
+ * - Up to two times, like `200ms` or `0.2s`: the first is the
+ *   duration and the second is the delay (like CSS transitions).
+ * - An easing name, like `elastic-out` (see `builtinEasingNames`
+ *   and `registerEasing`). Default: `cubic-out`.
+ * - Or, instead of an easing, `spring` or
+ *   `spring(stiffness=300, damping=20, mass=1, velocity=0)` (all
+ *   parameters optional). Springs compute their own duration, so
+ *   they only take a delay: `spring 100ms`.
+ * - A stagger, like `stagger=30ms` (see `Transition.stagger`).
+ *
+ * `none` means no transition. Examples: `"300ms"`, `"bounce-out"`,
+ * `"500ms back-in-out 100ms"`, `"spring(stiffness=300)"`.
+ */
+export function parseTransition(input: string): Transition | false {
+  const fail = (problem: string): never => {
+    throw new TransitionParseError(input, problem);
+  };
+
+  const trimmed = input.trim();
+  if (trimmed === "") fail("it's empty");
+  if (trimmed === "none") return false;
+
+  // Split on whitespace, but not inside spring(...)
+  const tokens = trimmed.match(/spring\([^)]*\)|\S+/g)!;
+
+  const parseTime = (str: string) => {
+    const time = TIME_RE.exec(str);
+    return time && Number(time[1]) * (time[2] === "s" ? 1000 : 1);
+  };
+
+  const times: number[] = [];
+  let easing: Transition["easing"] | undefined;
+  let stagger: number | undefined;
+  for (const token of tokens) {
+    const staggerMatch = STAGGER_RE.exec(token);
+    if (staggerMatch) {
+      if (stagger !== undefined) fail("more than one stagger");
+      stagger =
+        parseTime(staggerMatch[1]) ??
+        fail(`stagger needs a time, like "stagger=30ms" (got "${token}")`);
+      continue;
+    }
+    const time = parseTime(token);
+    if (time !== null) {
+      if (times.length === 2) {
+        fail(`too many times at "${token}" (expected a duration and a delay)`);
+      }
+      times.push(time);
+      continue;
+    }
+    if (/^\d/.test(token)) {
+      fail(`"${token}" needs a unit ("ms" or "s")`);
+    }
+    if (easing !== undefined) {
+      fail(`more than one easing ("${token}")`);
+    }
+    const springMatch = SPRING_RE.exec(token);
+    if (springMatch) {
+      easing = parseSpringParams(springMatch[1] ?? "", fail);
+    } else if (token === "none") {
+      fail(`"none" can't be combined with anything else`);
+    } else if (easingRegistry.has(token)) {
+      easing = token;
+    } else {
+      fail(
+        `unknown easing "${token}" (known easings: ${[...easingRegistry.keys()].join(", ")})`,
+      );
+    }
+  }
+
+  if (typeof easing === "object") {
+    if (times.length > 1) {
+      fail("springs compute their own duration, so only take a delay");
+    }
+    const { easing: springEasing, duration } = spring(easing);
+    return withTiming({ easing: springEasing, duration }, times[0], stagger);
+  }
+  return withTiming(
+    { easing: easing ?? "cubic-out", duration: times[0] ?? 200 },
+    times[1],
+    stagger,
+  );
+}
+
+function withTiming(
+  transition: Transition,
+  delay: number | undefined,
+  stagger: number | undefined,
+): Transition {
+  return {
+    ...transition,
+    ...(delay ? { delay } : {}),
+    ...(stagger ? { stagger } : {}),
+  };
+}
+
+function parseSpringParams(
+  paramsStr: string,
+  fail: (problem: string) => never,
+): SpringEasing {
+  const params: Partial<Record<(typeof SPRING_PARAMS)[number], number>> = {};
+  for (const part of paramsStr.split(/[\s,]+/).filter(Boolean)) {
+    const match = /^([a-z]+)=(-?\d*\.?\d+)$/.exec(part);
+    if (!match) {
+      fail(`bad spring parameter "${part}" (expected, e.g., "stiffness=300")`);
+    }
+    const [, name, value] = match;
+    if (!(SPRING_PARAMS as readonly string[]).includes(name)) {
+      fail(
+        `unknown spring parameter "${name}" (expected one of ${SPRING_PARAMS.join(", ")})`,
+      );
+    }
+    params[name as (typeof SPRING_PARAMS)[number]] = Number(value);
+  }
+  if (params.stiffness !== undefined && !(params.stiffness > 0)) {
+    fail("spring stiffness must be positive");
+  }
+  if (params.mass !== undefined && !(params.mass > 0)) {
+    fail("spring mass must be positive");
+  }
+  if (params.damping !== undefined && params.damping < 0) {
+    fail("spring damping can't be negative");
+  }
+  return spring(params).easing as SpringEasing;
+}
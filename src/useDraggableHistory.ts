@@ -0,0 +1,68 @@
+import { useCallback, useMemo, useState } from "react";
+import {
+  DraggableHistory,
+  initHistory,
+  recordHistory,
+  redoHistory,
+  undoHistory,
+} from "./history";
+import { TransitionLike } from "./transition";
+
+export type DraggableHistoryOptions = {
+  /** Maximum number of undo steps to keep. Default: 100. */
+  limit?: number;
+};
+
+/**
+ * Undo/redo for a controlled DraggableRenderer. Spread
+ * `rendererProps` onto the renderer: it records every drop and
+ * setState (with its transition), handles Ctrl/Cmd+Z and
+ * Ctrl/Cmd+Shift+Z, and animates undos and redos like drops.
+ *
+ * ```tsx
+ * const history = useDraggableHistory(initialState);
+ * <DraggableRenderer draggable={draggable} {...history.rendererProps} />
+ * <button disabled={!history.canUndo} onClick={history.undo}>Undo</button>
+ * ```
+ */
+export function useDraggableHistory<T extends object>(
+  initialState: T,
+  { limit }: DraggableHistoryOptions = {},
+) {
+  const [history, setHistory] = useState<DraggableHistory<T>>(() =>
+    initHistory(initialState),
+  );
+
+  const record = useCallback(
+    (state: T, { transition = true }: { transition?: TransitionLike } = {}) =>
+      setHistory((h) => recordHistory(h, state, transition, limit)),
+    [limit],
+  );
+  const undo = useCallback(() => setHistory(undoHistory), []);
+  const redo = useCallback(() => setHistory(redoHistory), []);
+  const reset = useCallback((state: T) => setHistory(initHistory(state)), []);
+
+  const rendererProps = useMemo(
+    () => ({
+      state: history.present.state,
+      stateTransition: history.transition,
+      onDropState: record,
+      onUndo: undo,
+      onRedo: redo,
+    }),
+    [history, record, undo, redo],
+  );
+
+  return {
+    state: history.present.state,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undo,
+    redo,
+    /** Jump to a state, forgetting all history. */
+    reset,
+    /** Record a state change made outside the renderer. */
+    record,
+    rendererProps,
+  };
+}
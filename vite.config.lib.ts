@@ -8,15 +8,16 @@ export default defineConfig({
   plugins: [react()],
   build: {
     lib: {
-      entry: "src/lib.ts",
+      entry: { index: "src/lib.ts", server: "src/server.ts" },
       formats: ["es"],
-      fileName: "index",
+      fileName: (_format, entryName) => `${entryName}.js`,
     },
     rollupOptions: {
       external: [
         ...Object.keys(pkg.dependencies ?? {}),
         ...Object.keys(pkg.peerDependencies ?? {}),
         /^react\//,
+        /^react-dom\//,
       ],
     },
     outDir: "dist-lib",